@@ -2,65 +2,11 @@ import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
 import { wecomPlugin, handleWeComWebhook } from "./src/channel.js";
 import { setWeComRuntime, getWeComConfig, getWeComPluginConfig } from "./src/runtime.js";
 import * as WeComAPI from "./src/wecom-api.js";
-import type { WeComAccountConfig } from "./src/channel.js";
-
-/**
- * 创建应用菜单 (CLI 命令使用)
- */
-async function createMenu(config: WeComAccountConfig, logger: any): Promise<void> {
-  try {
-    const accessToken = await WeComAPI.getAccessToken(config);
-    const url = `https://qyapi.weixin.qq.com/cgi-bin/menu/create?access_token=${accessToken}&agentid=${config.agentId}`;
-
-    const buttons = [
-      {
-        name: "会话",
-        sub_button: [
-          { type: "click", name: "新对话", key: "/reset" },
-          { type: "click", name: "压缩上下文", key: "/compact" },
-          { type: "click", name: "查看上下文", key: "/context" },
-          { type: "click", name: "停止生成", key: "/stop" },
-        ],
-      },
-      {
-        name: "模型",
-        sub_button: [
-          { type: "click", name: "切换模型", key: "/model" },
-          { type: "click", name: "GPT-5.2", key: "/model gpt-5.2" },
-          { type: "click", name: "Claude Opus", key: "/model claude-opus-4-5" },
-          { type: "click", name: "DeepSeek", key: "/model deepseek-chat" },
-        ],
-      },
-      {
-        name: "更多",
-        sub_button: [
-          { type: "click", name: "帮助", key: "/help" },
-          { type: "click", name: "状态", key: "/status" },
-          { type: "click", name: "命令列表", key: "/commands" },
-          { type: "click", name: "我是谁", key: "/whoami" },
-        ],
-      },
-    ];
-
-    const response = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ button: buttons }),
-    });
-
-    const result = (await response.json()) as { errcode: number; errmsg: string };
-
-    if (result.errcode !== 0) {
-      logger.error("创建菜单失败", { error: `${result.errcode} ${result.errmsg}` });
-    } else {
-      logger.info("企业微信菜单创建成功");
-    }
-  } catch (error) {
-    logger.error("创建菜单异常", {
-      error: error instanceof Error ? error.message : "Unknown",
-    });
-  }
-}
+import { syncAppMenu } from "./src/app-menu.js";
+import { listOutboxEntries, purgeOutbox } from "./src/outbox.js";
+import { readPairingState } from "./src/pairing-store.js";
+import { approvePairingRequest, denyPairingRequest } from "./src/access-control.js";
+import { accountMediaDir, sweepMedia } from "./src/media-store.js";
 
 const plugin = {
   id: "wecom",
@@ -85,19 +31,81 @@ const plugin = {
       ({ program }) => {
         const cmd = program.command("wecom").description("企业微信渠道管理");
 
-        cmd
+        const menu = cmd
           .command("menu")
-          .description("重新创建应用菜单")
+          .description("同步应用菜单（仅在与线上菜单不一致时更新）")
+          .option("-a, --account <id>", "账户ID", "default")
+          .option("--dry-run", "只比较配置与线上菜单，不更新")
+          .action(async (options: { account: string; dryRun?: boolean }) => {
+            const accountConfig = wecomPlugin.config.resolveAccount(getWeComConfig(), options.account);
+            if (!accountConfig.enabled || !accountConfig.corpId) {
+              console.log("账户未启用或未配置");
+              return;
+            }
+            try {
+              const result = await syncAppMenu(accountConfig, { dryRun: options.dryRun });
+              switch (result.action) {
+                case "disabled":
+                  console.log("菜单未启用管理 (menu: false)");
+                  break;
+                case "invalid":
+                  console.log("菜单配置不合法:");
+                  for (const error of result.errors ?? []) {
+                    console.log(`  - ${error}`);
+                  }
+                  break;
+                case "unchanged":
+                  console.log("菜单无变化");
+                  break;
+                case "pending":
+                  console.log("线上菜单:");
+                  console.log(JSON.stringify(result.current, null, 2));
+                  console.log("将更新为:");
+                  console.log(JSON.stringify(result.desired, null, 2));
+                  break;
+                case "updated":
+                  console.log("菜单已更新");
+                  break;
+              }
+            } catch (error) {
+              console.log(`同步菜单失败: ${error instanceof Error ? error.message : "Unknown"}`);
+            }
+          });
+
+        menu
+          .command("show")
+          .description("查看线上菜单")
           .option("-a, --account <id>", "账户ID", "default")
           .action(async (options: { account: string }) => {
-            const cfg = getWeComConfig();
-            const accountConfig = wecomPlugin.config.resolveAccount(cfg, options.account);
+            const accountConfig = wecomPlugin.config.resolveAccount(getWeComConfig(), options.account);
+            if (!accountConfig.enabled || !accountConfig.corpId) {
+              console.log("账户未启用或未配置");
+              return;
+            }
+            try {
+              const current = await WeComAPI.getAppMenu(accountConfig);
+              console.log(current.length > 0 ? JSON.stringify(current, null, 2) : "应用未设置菜单");
+            } catch (error) {
+              console.log(`获取菜单失败: ${error instanceof Error ? error.message : "Unknown"}`);
+            }
+          });
+
+        menu
+          .command("delete")
+          .description("删除应用菜单")
+          .option("-a, --account <id>", "账户ID", "default")
+          .action(async (options: { account: string }) => {
+            const accountConfig = wecomPlugin.config.resolveAccount(getWeComConfig(), options.account);
             if (!accountConfig.enabled || !accountConfig.corpId) {
               console.log("账户未启用或未配置");
               return;
             }
-            await createMenu(accountConfig, console);
-            console.log("菜单创建完成");
+            try {
+              await WeComAPI.deleteAppMenu(accountConfig);
+              console.log("菜单已删除（下次启动时会按配置重新创建，设置 menu: false 可停止管理菜单）");
+            } catch (error) {
+              console.log(`删除菜单失败: ${error instanceof Error ? error.message : "Unknown"}`);
+            }
           });
 
         cmd
@@ -112,7 +120,13 @@ const plugin = {
             console.log(`  账户ID: ${accountConfig.accountId}`);
             console.log(`  已启用: ${accountConfig.enabled}`);
             console.log(`  已配置: ${Boolean(accountConfig.corpId)}`);
-            console.log(`  配置来源: ${pluginCfg?.corpId ? 'plugins.entries.wecom.config' : (cfg.channels?.wecom?.corpId ? 'channels.wecom' : '未配置')}`);
+            const sources = [
+              pluginCfg && "plugins.entries.wecom.config",
+              cfg.channels?.wecom && "channels.wecom",
+              cfg.channels?.wecom?.accounts?.[options.account] && `channels.wecom.accounts.${options.account}`,
+            ].filter(Boolean);
+            console.log(`  配置来源: ${sources.length > 0 ? sources.join(" -> ") : "未配置"}`);
+            console.log(`  回调地址: /webhooks/wecom/${accountConfig.accountId}`);
             if (accountConfig.corpId) {
               try {
                 const token = await WeComAPI.getAccessToken(accountConfig);
@@ -122,6 +136,234 @@ const plugin = {
               }
             }
           });
+
+        cmd
+          .command("recall <msgid>")
+          .description("撤回 24 小时内发送的应用消息")
+          .option("-a, --account <id>", "账户ID", "default")
+          .action(async (msgid: string, options: { account: string }) => {
+            const accountConfig = wecomPlugin.config.resolveAccount(getWeComConfig(), options.account);
+            if (!accountConfig.enabled || !accountConfig.corpId) {
+              console.log("账户未启用或未配置");
+              return;
+            }
+            try {
+              await WeComAPI.recallMessage(accountConfig, msgid);
+              console.log(`消息已撤回: ${msgid}`);
+            } catch (error) {
+              console.log(`撤回失败: ${error instanceof Error ? error.message : "Unknown"}`);
+            }
+          });
+
+        const chat = cmd.command("chat").description("应用群聊管理");
+
+        chat
+          .command("create")
+          .description("创建应用群聊")
+          .requiredOption("-u, --users <userids>", "群成员 userid，逗号分隔（至少 2 人）")
+          .option("-n, --name <name>", "群名称")
+          .option("-o, --owner <userid>", "群主 userid")
+          .option("--chatid <chatid>", "自定义群聊 ID")
+          .option("-a, --account <id>", "账户ID", "default")
+          .action(async (options: { users: string; name?: string; owner?: string; chatid?: string; account: string }) => {
+            const accountConfig = wecomPlugin.config.resolveAccount(getWeComConfig(), options.account);
+            if (!accountConfig.enabled || !accountConfig.corpId) {
+              console.log("账户未启用或未配置");
+              return;
+            }
+            try {
+              const chatId = await WeComAPI.createAppChat(accountConfig, {
+                userlist: options.users.split(",").map((u) => u.trim()).filter(Boolean),
+                name: options.name,
+                owner: options.owner,
+                chatid: options.chatid,
+              });
+              console.log(`群聊已创建: ${chatId}`);
+              console.log(`发送目标: chat:${chatId}`);
+            } catch (error) {
+              console.log(`创建失败: ${error instanceof Error ? error.message : "Unknown"}`);
+            }
+          });
+
+        chat
+          .command("get <chatid>")
+          .description("查看应用群聊信息")
+          .option("-a, --account <id>", "账户ID", "default")
+          .action(async (chatId: string, options: { account: string }) => {
+            const accountConfig = wecomPlugin.config.resolveAccount(getWeComConfig(), options.account);
+            if (!accountConfig.enabled || !accountConfig.corpId) {
+              console.log("账户未启用或未配置");
+              return;
+            }
+            try {
+              const info = await WeComAPI.getAppChat(accountConfig, chatId);
+              console.log(`  群聊ID: ${info.chatid}`);
+              console.log(`  名称: ${info.name}`);
+              console.log(`  群主: ${info.owner}`);
+              console.log(`  成员: ${info.userlist.join(", ")}`);
+            } catch (error) {
+              console.log(`查询失败: ${error instanceof Error ? error.message : "Unknown"}`);
+            }
+          });
+
+        chat
+          .command("update <chatid>")
+          .description("修改应用群聊")
+          .option("-n, --name <name>", "新群名称")
+          .option("-o, --owner <userid>", "新群主 userid")
+          .option("--add <userids>", "添加成员，逗号分隔")
+          .option("--del <userids>", "移除成员，逗号分隔")
+          .option("-a, --account <id>", "账户ID", "default")
+          .action(async (chatId: string, options: { name?: string; owner?: string; add?: string; del?: string; account: string }) => {
+            const accountConfig = wecomPlugin.config.resolveAccount(getWeComConfig(), options.account);
+            if (!accountConfig.enabled || !accountConfig.corpId) {
+              console.log("账户未启用或未配置");
+              return;
+            }
+            const splitUsers = (value?: string) =>
+              value ? value.split(",").map((u) => u.trim()).filter(Boolean) : undefined;
+            try {
+              await WeComAPI.updateAppChat(accountConfig, {
+                chatid: chatId,
+                name: options.name,
+                owner: options.owner,
+                add_user_list: splitUsers(options.add),
+                del_user_list: splitUsers(options.del),
+              });
+              console.log("群聊已更新");
+            } catch (error) {
+              console.log(`更新失败: ${error instanceof Error ? error.message : "Unknown"}`);
+            }
+          });
+
+        const outbox = cmd.command("outbox").description("发件箱管理（未送达的出站消息）");
+
+        outbox
+          .command("list")
+          .description("列出发件箱中的消息")
+          .option("-a, --account <id>", "账户ID（不指定时列出所有账户）")
+          .action(async (options: { account?: string }) => {
+            const entries = await listOutboxEntries(options.account);
+            if (entries.length === 0) {
+              console.log("发件箱为空");
+              return;
+            }
+            const now = Date.now();
+            for (const entry of entries) {
+              const status = entry.expiresAt <= now ? "已过期" : `${Math.ceil((entry.expiresAt - now) / 60000)} 分钟后过期`;
+              console.log(`${entry.id}  [${entry.accountId}] ${entry.msgtype} -> ${entry.to}  尝试 ${entry.attempts} 次  ${status}`);
+              if (entry.lastError) {
+                console.log(`    最近错误: ${entry.lastError}`);
+              }
+            }
+          });
+
+        outbox
+          .command("retry [id]")
+          .description("重发发件箱中的消息（不指定 id 时重发账户下所有未过期的消息）")
+          .option("-a, --account <id>", "账户ID", "default")
+          .action(async (id: string | undefined, options: { account: string }) => {
+            const accountConfig = wecomPlugin.config.resolveAccount(getWeComConfig(), options.account);
+            if (!accountConfig.enabled || !accountConfig.corpId) {
+              console.log("账户未启用或未配置");
+              return;
+            }
+            if (!id) {
+              const result = await WeComAPI.replayOutbox(accountConfig);
+              console.log(`重发完成: 成功 ${result.sent}，失败 ${result.failed}，已过期删除 ${result.expired}`);
+              return;
+            }
+            const entry = (await listOutboxEntries(accountConfig.accountId)).find((item) => item.id === id);
+            if (!entry) {
+              console.log(`未找到消息: ${id}`);
+              return;
+            }
+            try {
+              await WeComAPI.resendOutboxEntry(accountConfig, entry);
+              console.log(`消息已重发: ${id}`);
+            } catch (error) {
+              console.log(`重发失败: ${error instanceof Error ? error.message : "Unknown"}`);
+            }
+          });
+
+        outbox
+          .command("purge")
+          .description("清空发件箱")
+          .option("-a, --account <id>", "账户ID（不指定时清空所有账户）")
+          .option("--expired", "只删除已过期的消息")
+          .action(async (options: { account?: string; expired?: boolean }) => {
+            const removed = await purgeOutbox(options.account, { expiredOnly: options.expired });
+            console.log(`已删除 ${removed} 条消息`);
+          });
+
+        const media = cmd.command("media").description("入站媒体文件管理");
+
+        media
+          .command("gc")
+          .description("按保留时间与总大小上限清理收到的媒体文件")
+          .option("-a, --account <id>", "账户ID", "default")
+          .option("--dry-run", "只统计将被删除的文件，不删除")
+          .action(async (options: { account: string; dryRun?: boolean }) => {
+            const accountConfig = wecomPlugin.config.resolveAccount(getWeComConfig(), options.account);
+            const result = await sweepMedia(accountConfig, { dryRun: options.dryRun });
+            const mb = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+            console.log(`媒体目录: ${accountMediaDir(accountConfig)}`);
+            console.log(
+              `${options.dryRun ? "将删除" : "已删除"} ${result.removed} 个文件（${mb(result.freedBytes)} MB），` +
+                `剩余 ${result.remainingFiles} 个文件（${mb(result.remainingBytes)} MB）`
+            );
+          });
+
+        const pair = cmd.command("pair").description("配对审批（不在 allowFrom 中的成员的使用申请）");
+
+        pair
+          .command("list")
+          .description("列出待审批的申请与已批准的成员")
+          .option("-a, --account <id>", "账户ID", "default")
+          .action((options: { account: string }) => {
+            const state = readPairingState(options.account);
+            const pending = Object.entries(state.pending);
+            const approved = Object.entries(state.approved);
+            if (pending.length === 0 && approved.length === 0) {
+              console.log("没有配对记录");
+              return;
+            }
+            for (const [userId, request] of pending) {
+              console.log(`待审批  ${userId}  申请于 ${new Date(request.requestedAt).toLocaleString()}`);
+            }
+            for (const [userId, record] of approved) {
+              const by = record.approvedBy ? `（${record.approvedBy}）` : "";
+              console.log(`已批准  ${userId}  批准于 ${new Date(record.approvedAt).toLocaleString()}${by}`);
+            }
+          });
+
+        pair
+          .command("approve <userid>")
+          .description("批准成员使用应用，并通知本人")
+          .option("-a, --account <id>", "账户ID", "default")
+          .action(async (userId: string, options: { account: string }) => {
+            const accountConfig = wecomPlugin.config.resolveAccount(getWeComConfig(), options.account);
+            try {
+              await approvePairingRequest(accountConfig, userId);
+              console.log(`已批准: ${userId}`);
+            } catch (error) {
+              console.log(`已批准 ${userId}，但通知失败: ${error instanceof Error ? error.message : "Unknown"}`);
+            }
+          });
+
+        pair
+          .command("deny <userid>")
+          .description("拒绝申请或撤销已批准的成员")
+          .option("-a, --account <id>", "账户ID", "default")
+          .action(async (userId: string, options: { account: string }) => {
+            const accountConfig = wecomPlugin.config.resolveAccount(getWeComConfig(), options.account);
+            try {
+              const existed = await denyPairingRequest(accountConfig, userId);
+              console.log(existed ? `已拒绝: ${userId}` : `${userId} 没有申请记录，已禁止其申请`);
+            } catch (error) {
+              console.log(`已拒绝 ${userId}，但通知失败: ${error instanceof Error ? error.message : "Unknown"}`);
+            }
+          });
       },
       { commands: ["wecom"] }
     );
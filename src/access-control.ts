@@ -0,0 +1,191 @@
+import * as WeComAPI from "./wecom-api.js";
+import type { WeComAccountConfig, TemplateCard } from "./wecom-api.js";
+import { sendInteractiveCard } from "./interactive-cards.js";
+import { addPairingRequest, approvePairing, denyPairing, isPairingApproved } from "./pairing-store.js";
+import { getWeComLogger } from "./runtime.js";
+
+// 同一成员的无权限提示最短间隔，避免每条消息都回复
+const NOTICE_INTERVAL_MS = 10 * 60 * 1000;
+
+// 最近一次无权限提示时间：accountId:userId -> 时间
+const lastNotices = new Map<string, number>();
+
+/**
+ * 是否为管理员
+ */
+export function isAdmin(config: WeComAccountConfig, userId: string): boolean {
+  return config.admins?.includes(userId) ?? false;
+}
+
+/**
+ * 是否允许执行命令（切换模型、重置会话、配对审批等）：只有管理员可以执行，未配置管理员时所有成员都不能执行
+ */
+export function isCommandAuthorized(config: WeComAccountConfig, userId: string): boolean {
+  return isAdmin(config, userId);
+}
+
+// 规范化后的 allowFrom
+interface AllowFromRules {
+  users: string[];
+  departments: number[];
+  tags: number[];
+}
+
+/**
+ * 规范化 allowFrom：userid 列表转为 { users }；未配置或包含 "*" 时返回 undefined（不限制）
+ */
+function resolveAllowFrom(config: WeComAccountConfig): AllowFromRules | undefined {
+  const allowFrom = config.allowFrom;
+  if (!allowFrom) return undefined;
+  if (Array.isArray(allowFrom)) {
+    const users = allowFrom.map((entry) => String(entry).trim()).filter(Boolean);
+    return users.includes("*") ? undefined : { users, departments: [], tags: [] };
+  }
+  return {
+    users: allowFrom.users ?? [],
+    departments: allowFrom.departments ?? [],
+    tags: allowFrom.tags ?? [],
+  };
+}
+
+/**
+ * 成员所在部门及其所有上级部门
+ */
+async function resolveUserDepartments(config: WeComAccountConfig, userId: string): Promise<Set<number>> {
+  const user = await WeComAPI.getDirectoryUser(config, userId);
+  const result = new Set<number>();
+  for (const id of user.department ?? []) {
+    result.add(id);
+    for (const department of await WeComAPI.resolveDepartmentChain(config, id)) {
+      result.add(department.id);
+    }
+  }
+  return result;
+}
+
+/**
+ * 成员是否匹配 allowFrom 中的部门（含子部门）或标签
+ */
+async function matchesContacts(
+  config: WeComAccountConfig,
+  { departments, tags }: AllowFromRules,
+  userId: string
+): Promise<boolean> {
+  if (departments.length === 0 && tags.length === 0) return false;
+
+  const userDepartments = await resolveUserDepartments(config, userId);
+  if (departments.some((id) => userDepartments.has(id))) return true;
+
+  for (const tagId of tags) {
+    const members = await WeComAPI.getDirectoryTagMembers(config, tagId);
+    if (members.userlist.some((member) => member.userid === userId)) return true;
+    if (members.partylist.some((id) => userDepartments.has(id))) return true;
+  }
+  return false;
+}
+
+/**
+ * 成员是否可以使用应用
+ * 未配置 allowFrom 时不限制；管理员与已通过配对审批的成员始终允许；通讯录查询失败时拒绝
+ */
+export async function isSenderAllowed(config: WeComAccountConfig, userId: string): Promise<boolean> {
+  const rules = resolveAllowFrom(config);
+  if (!rules) return true;
+  if (isAdmin(config, userId)) return true;
+  if (rules.users.includes(userId)) return true;
+  if (isPairingApproved(config.accountId, userId)) return true;
+
+  try {
+    return await matchesContacts(config, rules, userId);
+  } catch (error) {
+    getWeComLogger()?.warn("查询通讯录失败，拒绝访问", {
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+/**
+ * 构建发给管理员的配对审批卡片
+ */
+function buildPairingCard(userId: string, name?: string): TemplateCard {
+  return {
+    card_type: "button_interaction",
+    main_title: {
+      title: "使用申请",
+      desc: `${name && name !== userId ? `${name}（${userId}）` : userId} 申请使用应用`,
+    },
+    task_id: `pair_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    button_list: [
+      { text: "批准", key: `/pair approve ${userId}`, style: 1 },
+      { text: "拒绝", key: `/pair deny ${userId}`, style: 2 },
+    ],
+  };
+}
+
+/**
+ * 处理无权限成员的消息
+ * accessPolicy 为 pairing 时登记配对申请并发送审批卡片给管理员，deny 时只提示无权限
+ */
+export async function handleUnauthorizedSender(config: WeComAccountConfig, userId: string): Promise<void> {
+  const logger = getWeComLogger();
+  const noticeKey = `${config.accountId}:${userId}`;
+
+  const status = config.accessPolicy === "deny" ? "denied" : addPairingRequest(config.accountId, userId);
+
+  let notice: string;
+  if (status === "denied") {
+    notice = "你没有使用该应用的权限，请联系管理员";
+  } else if (status === "created") {
+    logger?.info("收到配对申请", { userId });
+    notice = "已向管理员提交使用申请，审批通过后即可开始对话";
+
+    const name = await WeComAPI.getDirectoryUser(config, userId)
+      .then((user) => user.name)
+      .catch(() => undefined);
+    for (const admin of config.admins ?? []) {
+      await sendInteractiveCard(config, admin, buildPairingCard(userId, name), { commands: true }).catch((error) => {
+        logger?.warn("发送配对审批卡片失败", {
+          admin,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+    // 新申请总是提示
+    lastNotices.delete(noticeKey);
+  } else {
+    notice = "你的使用申请正在等待管理员审批";
+  }
+
+  const lastNoticeAt = lastNotices.get(noticeKey) ?? 0;
+  if (Date.now() - lastNoticeAt < NOTICE_INTERVAL_MS) return;
+  lastNotices.set(noticeKey, Date.now());
+  await WeComAPI.sendWeComMessage(config, userId, notice);
+}
+
+/**
+ * 批准成员使用应用并通知本人
+ */
+export async function approvePairingRequest(
+  config: WeComAccountConfig,
+  userId: string,
+  approvedBy?: string
+): Promise<void> {
+  approvePairing(config.accountId, userId, approvedBy);
+  lastNotices.delete(`${config.accountId}:${userId}`);
+  getWeComLogger()?.info("已批准配对申请", { userId, approvedBy });
+  await WeComAPI.sendWeComMessage(config, userId, "你的使用申请已通过，现在可以开始对话了");
+}
+
+/**
+ * 拒绝申请或撤销已批准的成员，返回是否存在申请或批准记录（存在时通知本人）
+ */
+export async function denyPairingRequest(config: WeComAccountConfig, userId: string): Promise<boolean> {
+  const existed = denyPairing(config.accountId, userId);
+  if (existed) {
+    getWeComLogger()?.info("已拒绝配对申请", { userId });
+    await WeComAPI.sendWeComMessage(config, userId, "你的使用申请未通过");
+  }
+  return existed;
+}
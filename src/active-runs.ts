@@ -0,0 +1,54 @@
+// 正在生成的回复：sessionKey -> 中止控制器（群聊会话中可能有多个发送者同时触发回复）
+const activeRuns = new Map<string, Set<AbortController>>();
+let abortedCount = 0;
+
+/**
+ * 登记一次回复生成，返回其中止控制器
+ */
+export function beginRun(sessionKey: string): AbortController {
+  const controller = new AbortController();
+  let runs = activeRuns.get(sessionKey);
+  if (!runs) {
+    runs = new Set();
+    activeRuns.set(sessionKey, runs);
+  }
+  runs.add(controller);
+  return controller;
+}
+
+/**
+ * 回复生成结束（完成或已中止）后注销
+ */
+export function endRun(sessionKey: string, controller: AbortController): void {
+  const runs = activeRuns.get(sessionKey);
+  if (!runs) return;
+  runs.delete(controller);
+  if (runs.size === 0) {
+    activeRuns.delete(sessionKey);
+  }
+}
+
+/**
+ * 中止会话中所有正在生成的回复，返回中止的数量
+ */
+export function abortRuns(sessionKey: string, reason: string = "stopped"): number {
+  const runs = activeRuns.get(sessionKey);
+  if (!runs) return 0;
+  activeRuns.delete(sessionKey);
+  for (const controller of runs) {
+    controller.abort(reason);
+  }
+  abortedCount += runs.size;
+  return runs.size;
+}
+
+/**
+ * 获取回复生成统计（用于诊断）
+ */
+export function getActiveRunStats(): { sessions: number; running: number; aborted: number } {
+  let running = 0;
+  for (const runs of activeRuns.values()) {
+    running += runs.size;
+  }
+  return { sessions: activeRuns.size, running, aborted: abortedCount };
+}
@@ -0,0 +1,184 @@
+import * as WeComAPI from "./wecom-api.js";
+import type { WeComAccountConfig, MenuButton, MenuButtonType } from "./wecom-api.js";
+import { byteLength } from "./reply-chunker.js";
+import { buildModelMenu, listConfiguredModels } from "./model-menu.js";
+import { getWeComConfig } from "./runtime.js";
+
+// 企业微信菜单限制
+const MAX_TOP_BUTTONS = 3;
+const MAX_SUB_BUTTONS = 5;
+const MAX_TOP_NAME_BYTES = 16;
+const MAX_SUB_NAME_BYTES = 40;
+const MAX_KEY_BYTES = 128;
+const MAX_URL_BYTES = 1024;
+
+// 需要 key 的按钮类型（view 需要 url）
+const KEY_BUTTON_TYPES: MenuButtonType[] = ["click", "scancode_push", "pic_photo_or_album", "location_select"];
+
+/**
+ * 构建默认菜单，"模型"子菜单由 OpenClaw 配置中的模型生成
+ */
+export function buildDefaultMenu(config: WeComAccountConfig): MenuButton[] {
+  return [
+    {
+      name: "会话",
+      sub_button: [
+        { type: "click", name: "新对话", key: "/reset" },
+        { type: "click", name: "压缩上下文", key: "/compact" },
+        { type: "click", name: "查看上下文", key: "/context" },
+        { type: "click", name: "停止生成", key: "/stop" },
+      ],
+    },
+    buildModelMenu(listConfiguredModels(getWeComConfig()), config.modelMenu),
+    {
+      name: "更多",
+      sub_button: [
+        { type: "click", name: "帮助", key: "/help" },
+        { type: "click", name: "状态", key: "/status" },
+        { type: "click", name: "命令列表", key: "/commands" },
+        { type: "click", name: "我是谁", key: "/whoami" },
+      ],
+    },
+  ];
+}
+
+// 菜单同步结果
+export interface MenuSyncResult {
+  // disabled: 未管理菜单；invalid: 配置不合法；unchanged: 与线上一致；updated: 已更新；pending: 试运行，需要更新
+  action: "disabled" | "invalid" | "unchanged" | "updated" | "pending";
+  desired: MenuButton[];
+  current?: MenuButton[];
+  errors?: string[];
+}
+
+/**
+ * 获取账户配置的菜单，未配置时使用默认菜单，menu: false 返回 null
+ */
+export function resolveMenu(config: WeComAccountConfig): MenuButton[] | null {
+  if (config.menu === false) return null;
+  return config.menu ?? buildDefaultMenu(config);
+}
+
+/**
+ * 校验单个叶子按钮
+ */
+function validateLeafButton(button: MenuButton, label: string, errors: string[]): void {
+  if (!button.type) {
+    errors.push(`${label}: 缺少 type`);
+    return;
+  }
+  if (button.type === "view") {
+    if (!button.url || !/^https?:\/\//i.test(button.url)) {
+      errors.push(`${label}: view 类型需要 http(s) 开头的 url`);
+    } else if (byteLength(button.url) > MAX_URL_BYTES) {
+      errors.push(`${label}: url 超过 ${MAX_URL_BYTES} 字节`);
+    }
+  } else if (KEY_BUTTON_TYPES.includes(button.type)) {
+    if (!button.key) {
+      errors.push(`${label}: ${button.type} 类型需要 key`);
+    } else if (byteLength(button.key) > MAX_KEY_BYTES) {
+      errors.push(`${label}: key 超过 ${MAX_KEY_BYTES} 字节`);
+    }
+  } else {
+    errors.push(`${label}: 不支持的类型 ${button.type}`);
+  }
+}
+
+/**
+ * 按企业微信限制校验菜单，返回错误列表（为空表示通过）
+ * 一级菜单 1~3 个、名称不超过 16 字节；二级菜单 1~5 个、名称不超过 40 字节
+ */
+export function validateMenu(buttons: MenuButton[]): string[] {
+  const errors: string[] = [];
+
+  if (!Array.isArray(buttons) || buttons.length === 0) {
+    return ["菜单至少需要 1 个一级按钮"];
+  }
+  if (buttons.length > MAX_TOP_BUTTONS) {
+    errors.push(`一级菜单最多 ${MAX_TOP_BUTTONS} 个，当前 ${buttons.length} 个`);
+  }
+
+  buttons.forEach((button, index) => {
+    const label = `菜单 ${index + 1}「${button.name ?? ""}」`;
+    if (!button.name) {
+      errors.push(`${label}: 缺少 name`);
+    } else if (byteLength(button.name) > MAX_TOP_NAME_BYTES) {
+      errors.push(`${label}: 名称超过 ${MAX_TOP_NAME_BYTES} 字节`);
+    }
+
+    if (!button.sub_button) {
+      validateLeafButton(button, label, errors);
+      return;
+    }
+
+    if (button.sub_button.length === 0 || button.sub_button.length > MAX_SUB_BUTTONS) {
+      errors.push(`${label}: 二级菜单需要 1~${MAX_SUB_BUTTONS} 个，当前 ${button.sub_button.length} 个`);
+    }
+    button.sub_button.forEach((sub, subIndex) => {
+      const subLabel = `菜单 ${index + 1}.${subIndex + 1}「${sub.name ?? ""}」`;
+      if (!sub.name) {
+        errors.push(`${subLabel}: 缺少 name`);
+      } else if (byteLength(sub.name) > MAX_SUB_NAME_BYTES) {
+        errors.push(`${subLabel}: 名称超过 ${MAX_SUB_NAME_BYTES} 字节`);
+      }
+      if (sub.sub_button?.length) {
+        errors.push(`${subLabel}: 不支持三级菜单`);
+      }
+      validateLeafButton(sub, subLabel, errors);
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * 规范化菜单用于比较（只保留有意义的字段，固定字段顺序）
+ */
+function normalizeMenu(buttons: MenuButton[]): unknown[] {
+  return buttons.map((button) =>
+    button.sub_button?.length
+      ? { name: button.name, sub_button: normalizeMenu(button.sub_button) }
+      : {
+          type: button.type,
+          name: button.name,
+          ...(button.type === "view" ? { url: button.url } : { key: button.key }),
+        }
+  );
+}
+
+/**
+ * 比较两个菜单是否一致
+ */
+export function isSameMenu(a: MenuButton[], b: MenuButton[]): boolean {
+  return JSON.stringify(normalizeMenu(a)) === JSON.stringify(normalizeMenu(b));
+}
+
+/**
+ * 同步应用菜单：获取线上菜单，仅在与配置不一致时更新
+ */
+export async function syncAppMenu(
+  config: WeComAccountConfig,
+  options: { dryRun?: boolean } = {}
+): Promise<MenuSyncResult> {
+  const desired = resolveMenu(config);
+  if (!desired) {
+    return { action: "disabled", desired: [] };
+  }
+
+  const errors = validateMenu(desired);
+  if (errors.length > 0) {
+    return { action: "invalid", desired, errors };
+  }
+
+  const current = await WeComAPI.getAppMenu(config);
+  if (isSameMenu(current, desired)) {
+    return { action: "unchanged", desired, current };
+  }
+
+  if (options.dryRun) {
+    return { action: "pending", desired, current };
+  }
+
+  await WeComAPI.createAppMenu(config, desired);
+  return { action: "updated", desired, current };
+}
@@ -6,32 +6,49 @@ import {
   normalizeAccountId,
   type OpenClawConfig,
 } from "openclaw/plugin-sdk";
-import { getWeComRuntime, getWeComConfig, getWeComLogger, getWeComPluginConfig } from "./runtime.js";
+import { getWeComRuntime, getWeComConfig, setWeComConfig, getWeComLogger, getWeComPluginConfig } from "./runtime.js";
 import * as WeComAPI from "./wecom-api.js";
-import * as path from "node:path";
-import * as os from "node:os";
-
-// 企业微信账户配置
-export interface WeComAccountConfig {
-  accountId: string;
-  enabled: boolean;
-  corpId: string;
-  corpSecret: string;
-  agentId: string;
-  token: string;
-  encodingAesKey: string;
-}
+import type { WeComAccountConfig } from "./wecom-api.js";
+import { createStreamingCard, refreshStreamingCard } from "./streaming-card.js";
+import { syncAppMenu } from "./app-menu.js";
+import { buildModelCard, listConfiguredModels } from "./model-menu.js";
+import {
+  acknowledgeCardEvent,
+  buildChoiceCard,
+  describeCardEvent,
+  formatCardEventText,
+  isCommandCardEvent,
+  isInteractiveCard,
+  sendInteractiveCard,
+} from "./interactive-cards.js";
+import { fitsSingleTextMessage, resolveReplyFormat, sendFormattedText } from "./reply-format.js";
+import { getAccessTokenStats } from "./token-manager.js";
+import { getSendQueueStats, runWithAbortSignal, SendAbortedError } from "./send-queue.js";
+import { getDedupeStats, getDedupeStore } from "./dedupe-store.js";
+import { isOutboxEnabled } from "./outbox.js";
+import { enqueueInbound, getInboundQueueStats } from "./inbound-queue.js";
+import { abortRuns, beginRun, endRun, getActiveRunStats } from "./active-runs.js";
+import {
+  approvePairingRequest,
+  denyPairingRequest,
+  handleUnauthorizedSender,
+  isAdmin,
+  isCommandAuthorized,
+  isSenderAllowed,
+} from "./access-control.js";
+import { readPairingState } from "./pairing-store.js";
+import { resolveMediaOptions, saveInboundMedia, startMediaSweeper, stopMediaSweepers } from "./media-store.js";
+import type { StoredMedia } from "./media-store.js";
+import { createTranscriber } from "./transcriber.js";
+import { MediaUploadError, prepareOutboundMedia, type MediaUploadType } from "./media-preflight.js";
+import { checkCallbackReplay, recordCallbackRejection, getCallbackGuardStats, clearNonceCache } from "./replay-guard.js";
+
+// 企业微信账户配置（定义在 wecom-api.ts，此处重新导出）
+export type { WeComAccountConfig };
 
 const meta = getChatChannelMeta("wecom");
 const DEFAULT_ACCOUNT = DEFAULT_ACCOUNT_ID;
 
-// 消息去重缓存（防止企业微信重试导致重复处理）
-// 使用两层去重：MsgId 去重 + 内容哈希去重
-const processedMsgIds = new Map<string, number>();
-const processedContentHashes = new Map<string, number>();
-const MSG_ID_CACHE_TTL = 300 * 1000; // 5 分钟过期（增加到 5 分钟）
-const MSG_ID_CACHE_MAX_SIZE = 2000; // 最多缓存 2000 条
-
 /**
  * 生成内容哈希（用于二次去重）
  */
@@ -40,124 +57,174 @@ function generateContentHash(fromUser: string, msgType: string, content: string,
 }
 
 /**
- * 清理过期缓存
+ * 获取消息内容特征（用于内容哈希）
  */
-function cleanupExpiredCache(): void {
-  const now = Date.now();
-  
-  // 清理 MsgId 缓存
-  if (processedMsgIds.size > MSG_ID_CACHE_MAX_SIZE / 2) {
-    for (const [id, timestamp] of processedMsgIds) {
-      if (now - timestamp > MSG_ID_CACHE_TTL) {
-        processedMsgIds.delete(id);
-      }
-    }
-  }
-  
-  // 清理内容哈希缓存
-  if (processedContentHashes.size > MSG_ID_CACHE_MAX_SIZE / 2) {
-    for (const [hash, timestamp] of processedContentHashes) {
-      if (now - timestamp > MSG_ID_CACHE_TTL) {
-        processedContentHashes.delete(hash);
-      }
-    }
+function getMessageContentKey(msg: WeComAPI.WeComMessage): string {
+  switch (msg.MsgType) {
+    case "text":
+      return msg.Content;
+    case "image":
+    case "voice":
+    case "video":
+    case "file":
+      return msg.MediaId;
+    case "event":
+      return msg.EventKey;
+    default:
+      return "";
   }
 }
 
 /**
- * 检查消息是否已处理（去重）
+ * 检查消息是否已处理（去重，防止企业微信重试导致重复处理）
+ * 两层去重：MsgId + 内容哈希（内容哈希层可通过 dedupe.contentHash 关闭）
  * 返回 true 表示消息已处理过（应该忽略）
  */
-function isMessageProcessed(msgId: string, contentHash?: string): boolean {
-  const now = Date.now();
+function isMessageProcessed(accountConfig: WeComAccountConfig, msgId: string, contentHash?: string): boolean {
   const logger = getWeComLogger();
-  
-  // 清理过期缓存
-  cleanupExpiredCache();
-  
+  const store = getDedupeStore(accountConfig);
+  const idKey = msgId ? `id:${msgId}` : "";
+  const hashKey = contentHash && accountConfig.dedupe?.contentHash !== false ? `hash:${contentHash}` : "";
+
   // 第一层：MsgId 去重
-  if (msgId && processedMsgIds.has(msgId)) {
+  if (idKey && store.has(idKey)) {
     logger.warn(`[去重] 检测到重复消息 (MsgId): ${msgId}`);
     return true;
   }
-  
+
   // 第二层：内容哈希去重（防止 MsgId 不同但内容相同的重复）
-  if (contentHash && processedContentHashes.has(contentHash)) {
+  if (hashKey && store.has(hashKey)) {
     logger.warn(`[去重] 检测到重复消息 (ContentHash): ${contentHash}`);
     return true;
   }
-  
+
   // 记录新消息
-  if (msgId) {
-    processedMsgIds.set(msgId, now);
+  if (idKey) {
+    store.add(idKey);
   }
-  if (contentHash) {
-    processedContentHashes.set(contentHash, now);
+  if (hashKey) {
+    store.add(hashKey);
   }
-  
+
   logger.info(`[去重] 新消息已记录: msgId=${msgId}, hash=${contentHash?.slice(0, 30)}`);
   return false;
 }
 
-// 媒体文件保存目录
-function getMediaSaveDir(): string {
-  // 使用临时目录下的 wecom-media 子目录
-  const tempDir = os.tmpdir();
-  return path.join(tempDir, "wecom-media");
+// 支持的媒体消息
+type MediaMessage = WeComAPI.ImageMessage | WeComAPI.VoiceMessage | WeComAPI.VideoMessage | WeComAPI.FileMessage;
+
+// 入站附件（写入上下文的 WeComAttachments，同时映射到 MediaPath/MediaPaths 等标准字段）
+export interface InboundAttachment {
+  kind: MediaMessage["MsgType"];
+  path: string;
+  mimeType: string;
+  size: number;
+  // 原始文件名（文件消息为发送者提供的文件名，其余为保存后的文件名）
+  fileName: string;
+  // 视频缩略图
+  thumbnailPath?: string;
+  // 图片原始链接（media.exposePicUrl 开启时）
+  url?: string;
+  // 语音识别结果
+  transcript?: string;
 }
 
-// 支持的媒体消息类型
-type MediaMsgType = "image" | "voice" | "video" | "file";
+// 媒体消息的类型标签
+const MEDIA_LABELS: Record<MediaMessage["MsgType"], string> = {
+  image: "图片",
+  voice: "语音",
+  video: "视频",
+  file: "文件",
+};
 
 /**
  * 处理媒体消息（图片、语音、视频、文件）
- * 下载媒体文件并返回处理后的文本描述
+ * 下载媒体文件到发送者的媒体目录，返回附件与文本描述
+ * media.text 为 false 时文本只保留类型标签（文件消息附带文件名），不包含路径等细节
+ * 在排队处理时调用，signal 中止（/stop）时终止下载
  */
 async function processMediaMessage(
-  msg: Record<string, string>,
-  msgType: MediaMsgType,
-  accountConfig: WeComAccountConfig
-): Promise<{ text: string; filePath?: string }> {
+  msg: MediaMessage,
+  accountConfig: WeComAccountConfig,
+  signal?: AbortSignal
+): Promise<{ text: string; attachments: InboundAttachment[] }> {
   const logger = getWeComLogger();
+  const msgType = msg.MsgType;
   const mediaId = msg.MediaId;
-  
+  const label = MEDIA_LABELS[msgType];
+
   if (!mediaId) {
     logger.warn("媒体消息缺少 MediaId", { msgType });
-    return { text: `[${msgType}] (无法获取媒体文件)` };
+    return { text: `[${label}] (无法获取媒体文件)`, attachments: [] };
   }
 
+  // 下载素材（超过大小上限时中止）并保存，文件名由发送者提供时经过清理
+  const options = resolveMediaOptions(accountConfig);
+  const download = async (id: string, fileName?: string, fallbackName: string = id, defaultExt?: string) => {
+    const media = await WeComAPI.fetchMediaContent(accountConfig, id, { maxBytes: options.maxBytes, signal });
+    return saveInboundMedia(accountConfig, msg.FromUserName, media.data, {
+      fileName: fileName ?? media.fileName,
+      fallbackName,
+      defaultExt,
+    });
+  };
+
   try {
-    const saveDir = getMediaSaveDir();
-    let filePath: string;
-    let description: string;
+    let attachment: InboundAttachment;
+    const details: string[] = [];
 
-    switch (msgType) {
+    switch (msg.MsgType) {
       case "image": {
         // 图片消息：有 PicUrl（图片链接）和 MediaId
-        const picUrl = msg.PicUrl;
-        filePath = await WeComAPI.downloadMedia(accountConfig, mediaId, saveDir);
-        description = `[图片] ${filePath}`;
-        if (picUrl) {
-          description += `\n图片链接: ${picUrl}`;
+        const stored = await download(mediaId);
+        attachment = { kind: "image", path: stored.filePath, mimeType: stored.mimeType, size: stored.size, fileName: stored.fileName };
+        if (options.exposePicUrl && msg.PicUrl) {
+          attachment.url = msg.PicUrl;
+          details.push(`图片链接: ${msg.PicUrl}`);
         }
         break;
       }
       case "voice": {
-        // 语音消息：有 Format（语音格式，如 amr）
+        // 语音消息：有 Format（语音格式，如 amr），开启语音识别时有 Recognition
         const format = msg.Format || "amr";
-        filePath = await WeComAPI.downloadMedia(accountConfig, mediaId, saveDir, `${mediaId}.${format}`);
-        description = `[语音] ${filePath} (格式: ${format})`;
+        const stt = accountConfig.speechToText;
+        let stored: StoredMedia | undefined;
+        if (stt?.hdVoice) {
+          try {
+            const media = await WeComAPI.fetchMediaContent(accountConfig, mediaId, { maxBytes: options.maxBytes, hd: true, signal });
+            stored = await saveInboundMedia(accountConfig, msg.FromUserName, media.data, {
+              fallbackName: `${mediaId}_hd`,
+              defaultExt: "mp3",
+            });
+          } catch (error) {
+            logger.warn("获取高清语音失败，使用普通语音", {
+              mediaId,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+        stored ??= await download(mediaId, `${mediaId}.${format}`);
+        attachment = { kind: "voice", path: stored.filePath, mimeType: stored.mimeType, size: stored.size, fileName: stored.fileName };
+        details.push(`格式: ${format}`);
+
+        // 企业微信的识别结果作为消息正文，音频仍作为附件；没有识别结果时在排队处理时调用转写器
+        const recognition = stt?.recognition !== false ? msg.Recognition?.trim() : undefined;
+        if (recognition) {
+          attachment.transcript = recognition;
+          return { text: recognition, attachments: [attachment] };
+        }
         break;
       }
       case "video": {
         // 视频消息：有 ThumbMediaId（缩略图媒体ID）
-        filePath = await WeComAPI.downloadMedia(accountConfig, mediaId, saveDir, `${mediaId}.mp4`);
-        description = `[视频] ${filePath}`;
+        const stored = await download(mediaId, undefined, mediaId, "mp4");
+        attachment = { kind: "video", path: stored.filePath, mimeType: stored.mimeType, size: stored.size, fileName: stored.fileName };
         // 可选：下载缩略图
         if (msg.ThumbMediaId) {
           try {
-            const thumbPath = await WeComAPI.downloadMedia(accountConfig, msg.ThumbMediaId, saveDir, `${mediaId}_thumb.jpg`);
-            description += `\n缩略图: ${thumbPath}`;
+            const thumb = await download(msg.ThumbMediaId, undefined, `${mediaId}_thumb`, "jpg");
+            attachment.thumbnailPath = thumb.filePath;
+            details.push(`缩略图: ${thumb.filePath}`);
           } catch (e) {
             // 缩略图下载失败不影响主流程
           }
@@ -165,36 +232,101 @@ async function processMediaMessage(
         break;
       }
       case "file": {
-        // 文件消息：有 FileName（文件名）
-        const fileName = msg.FileName || `${mediaId}.bin`;
-        filePath = await WeComAPI.downloadMedia(accountConfig, mediaId, saveDir, fileName);
-        description = `[文件] ${filePath}`;
+        // 文件消息：有 FileName（发送者提供的文件名，清理后使用）
+        const stored = await download(mediaId, msg.FileName || undefined, mediaId, "bin");
+        attachment = {
+          kind: "file",
+          path: stored.filePath,
+          mimeType: stored.mimeType,
+          size: stored.size,
+          fileName: msg.FileName || stored.fileName,
+        };
         break;
       }
-      default:
-        return { text: `[${msgType}] (不支持的媒体类型)` };
     }
 
-    logger.info("媒体文件已下载", { msgType, mediaId, filePath });
-    return { text: description, filePath };
+    logger.info("媒体文件已下载", { msgType, mediaId, filePath: attachment.path, mimeType: attachment.mimeType });
+
+    const text = options.text
+      ? [`[${label}] ${attachment.path}`, `类型: ${attachment.mimeType}，大小: ${attachment.size} 字节`, ...details].join("\n")
+      : msgType === "file" ? `[${label}] ${attachment.fileName}` : `[${label}]`;
+    return { text, attachments: [attachment] };
   } catch (error) {
     logger.error("下载媒体文件失败", {
       msgType,
       mediaId,
       error: error instanceof Error ? error.message : String(error),
     });
-    return { text: `[${msgType}] (下载失败: ${error instanceof Error ? error.message : "未知错误"})` };
+    return { text: `[${label}] (下载失败: ${error instanceof Error ? error.message : "未知错误"})`, attachments: [] };
+  }
+}
+
+/**
+ * 使用配置的转写器转写尚未识别的语音附件，返回识别文本；失败或未配置转写器时返回 undefined
+ * 转写耗时较长，在排队处理时调用，不阻塞回调响应；signal 中止（/stop）时终止转写
+ */
+async function transcribeVoiceAttachments(
+  attachments: InboundAttachment[],
+  accountConfig: WeComAccountConfig,
+  signal?: AbortSignal
+): Promise<string | undefined> {
+  const pending = attachments.filter((attachment) => attachment.kind === "voice" && !attachment.transcript);
+  const transcriber = pending.length > 0 ? createTranscriber(accountConfig.speechToText) : null;
+  if (!transcriber) return undefined;
+
+  const transcripts: string[] = [];
+  for (const attachment of pending) {
+    if (signal?.aborted) break;
+    try {
+      const transcript = await transcriber.transcribe(attachment.path, attachment.mimeType, signal);
+      if (transcript) {
+        attachment.transcript = transcript;
+        transcripts.push(transcript);
+      }
+    } catch (error) {
+      getWeComLogger().warn("语音转写失败", {
+        path: attachment.path,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
   }
+  return transcripts.join("\n") || undefined;
 }
 
 /**
- * 处理位置消息
+ * 附件映射为上下文中的标准媒体字段（第一个附件为 MediaPath/MediaType/MediaUrl）
+ * 已转写的语音同时写入 Transcript 与 MediaTranscribedIndexes，避免再次转写
  */
-function processLocationMessage(msg: Record<string, string>): string {
-  const latitude = msg.Location_X || msg.Latitude;
-  const longitude = msg.Location_Y || msg.Longitude;
-  const scale = msg.Scale;
-  const label = msg.Label;
+function buildMediaContext(attachments: InboundAttachment[]): Record<string, unknown> {
+  if (attachments.length === 0) return {};
+  const urls = attachments.map((attachment) => attachment.url ?? attachment.path);
+  const transcribed = attachments.flatMap((attachment, index) => (attachment.transcript ? [index] : []));
+  return {
+    ...(transcribed.length > 0
+      ? {
+          Transcript: transcribed.map((index) => attachments[index].transcript).join("\n"),
+          MediaTranscribedIndexes: transcribed,
+        }
+      : {}),
+    MediaPath: attachments[0].path,
+    MediaType: attachments[0].mimeType,
+    MediaUrl: urls[0],
+    MediaPaths: attachments.map((attachment) => attachment.path),
+    MediaTypes: attachments.map((attachment) => attachment.mimeType),
+    MediaUrls: urls,
+    WeComAttachments: attachments,
+  };
+}
+
+/**
+ * 处理位置消息（普通位置消息或菜单选择位置事件）
+ */
+function processLocationMessage(msg: WeComAPI.LocationMessage | WeComAPI.LocationSelectEvent): string {
+  const location = msg.MsgType === "location" ? msg : msg.SendLocationInfo;
+  const latitude = location.Location_X;
+  const longitude = location.Location_Y;
+  const scale = location.Scale;
+  const label = location.Label;
   
   let text = `[位置]`;
   if (label) {
@@ -210,7 +342,7 @@ function processLocationMessage(msg: Record<string, string>): string {
 /**
  * 处理链接消息
  */
-function processLinkMessage(msg: Record<string, string>): string {
+function processLinkMessage(msg: WeComAPI.LinkMessage): string {
   const title = msg.Title || "无标题";
   const description = msg.Description || "";
   const url = msg.Url || "";
@@ -227,122 +359,462 @@ function processLinkMessage(msg: Record<string, string>): string {
 }
 
 /**
- * 解析账户配置
- * 优先级：
+ * 合并配置层（后面的层覆盖前面的层，undefined 值不覆盖）
+ */
+function mergeConfigLayers(...layers: Array<Record<string, any> | undefined>): Record<string, any> {
+  const merged: Record<string, any> = {};
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const [key, value] of Object.entries(layer)) {
+      if (key === "accounts" || value === undefined) continue;
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * 账户是否在 channels.wecom.accounts 中声明（只查自身属性，constructor、__proto__ 等不算）
+ */
+function isDeclaredAccount(cfg: OpenClawConfig, accountId: string): boolean {
+  const accounts = cfg?.channels?.wecom?.accounts;
+  return Boolean(accounts) && typeof accounts === "object" && Object.hasOwn(accounts, accountId);
+}
+
+/**
+ * 解析账户配置（CLI、网关、出站发送与 webhook 统一使用）
+ * 按以下顺序逐层合并，后者覆盖前者：
  * 1. plugins.entries.wecom.config（插件专属配置）
- * 2. channels.wecom（渠道配置）
- * 3. channels.wecom.accounts[id]（多账户模式）
+ * 2. channels.wecom（渠道默认配置）
+ * 3. channels.wecom.accounts[id]（账户级覆盖）
+ * 非默认账户必须在 channels.wecom.accounts 中声明，否则视为未配置
  */
-function resolveAccountConfig(
+export function resolveAccountConfig(
   cfg: OpenClawConfig,
   accountId?: string
 ): WeComAccountConfig {
   const id = accountId ?? DEFAULT_ACCOUNT;
+  const channelConfig = cfg?.channels?.wecom;
+  const accountOverride = isDeclaredAccount(cfg, id) ? channelConfig.accounts[id] : undefined;
+
+  const merged = id === DEFAULT_ACCOUNT || accountOverride
+    ? mergeConfigLayers(getWeComPluginConfig(), channelConfig, accountOverride)
+    : {};
 
-  // 优先从插件配置读取 (plugins.entries.wecom.config)
-  const pluginConfig = getWeComPluginConfig();
-  if (pluginConfig && pluginConfig.corpId) {
-    return {
-      accountId: id,
-      enabled: pluginConfig.enabled ?? true,
-      corpId: pluginConfig.corpId,
-      corpSecret: pluginConfig.corpSecret,
-      agentId: pluginConfig.agentId,
-      token: pluginConfig.token,
-      encodingAesKey: pluginConfig.encodingAesKey,
-    };
+  return {
+    ...merged,
+    accountId: id,
+    enabled: Boolean(merged.corpId) && merged.enabled !== false,
+    corpId: merged.corpId ?? "",
+    corpSecret: merged.corpSecret ?? "",
+    agentId: merged.agentId !== undefined ? String(merged.agentId) : "",
+    token: merged.token ?? "",
+    encodingAesKey: merged.encodingAesKey ?? "",
+  };
+}
+
+/**
+ * 列出所有账户 ID
+ * 插件配置或 channels.wecom 顶层有凭证时包含默认账户
+ */
+export function listAccountIds(cfg: OpenClawConfig): string[] {
+  const ids = Object.keys(cfg?.channels?.wecom?.accounts ?? {});
+  const hasDefault = Boolean(getWeComPluginConfig()?.corpId || cfg?.channels?.wecom?.corpId);
+  if (hasDefault && !ids.includes(DEFAULT_ACCOUNT)) {
+    ids.unshift(DEFAULT_ACCOUNT);
   }
+  return ids.length > 0 ? ids : [DEFAULT_ACCOUNT];
+}
 
-  // 从 channels.wecom 读取（渠道配置格式）
-  const channelConfig = cfg.channels?.wecom;
-  if (channelConfig && channelConfig.corpId) {
-    return {
-      accountId: id,
-      enabled: channelConfig.enabled ?? true,
-      corpId: channelConfig.corpId,
-      corpSecret: channelConfig.corpSecret,
-      agentId: channelConfig.agentId,
-      token: channelConfig.token,
-      encodingAesKey: channelConfig.encodingAesKey,
-    };
+/**
+ * 启动时同步应用菜单（仅在与线上菜单不一致时更新）
+ */
+async function syncMenuOnStart(config: WeComAccountConfig): Promise<void> {
+  const logger = getWeComLogger();
+  try {
+    const result = await syncAppMenu(config);
+    switch (result.action) {
+      case "invalid":
+        logger.error("菜单配置不合法，跳过同步", { accountId: config.accountId, errors: result.errors });
+        break;
+      case "updated":
+        logger.info("企业微信菜单已更新", { accountId: config.accountId });
+        break;
+      case "unchanged":
+        logger.info("企业微信菜单无变化", { accountId: config.accountId });
+        break;
+    }
+  } catch (error) {
+    logger.error("同步菜单异常", {
+      accountId: config.accountId,
+      error: error instanceof Error ? error.message : "Unknown",
+    });
+  }
+}
+
+// 发件箱定期重放间隔
+const OUTBOX_REPLAY_INTERVAL_MS = 60 * 1000;
+// 各账户的发件箱重放定时器
+const outboxTimers = new Map<string, ReturnType<typeof setInterval>>();
+// 正在重放的账户，避免上一轮未结束时重复重放
+const replayingAccounts = new Set<string>();
+
+/**
+ * 重放发件箱（不阻塞调用方）
+ */
+async function replayAccountOutbox(config: WeComAccountConfig): Promise<void> {
+  if (replayingAccounts.has(config.accountId)) return;
+  replayingAccounts.add(config.accountId);
+  const logger = getWeComLogger();
+  try {
+    const result = await WeComAPI.replayOutbox(config);
+    if (result.sent || result.failed || result.expired) {
+      logger.info("发件箱重放完成", { accountId: config.accountId, ...result });
+    }
+  } catch (error) {
+    logger.error("重放发件箱异常", {
+      accountId: config.accountId,
+      error: error instanceof Error ? error.message : "Unknown",
+    });
+  } finally {
+    replayingAccounts.delete(config.accountId);
   }
+}
+
+/**
+ * 启动时重放发件箱，之后每分钟重放一次（接口恢复后无需重启即可送达）
+ */
+function startOutboxReplayer(config: WeComAccountConfig): void {
+  clearInterval(outboxTimers.get(config.accountId));
+  void replayAccountOutbox(config);
+  if (!isOutboxEnabled(config)) return;
+  const timer = setInterval(() => void replayAccountOutbox(config), OUTBOX_REPLAY_INTERVAL_MS);
+  // 定期重放不阻止进程退出
+  timer.unref?.();
+  outboxTimers.set(config.accountId, timer);
+}
 
-  // 从 channels.wecom.accounts 读取（多账户模式）
-  const channelAccounts = cfg.channels?.wecom?.accounts ?? {};
-  const channelAccount = channelAccounts[id];
-  if (channelAccount) {
-    return { ...channelAccount, accountId: id };
+/**
+ * 停止所有发件箱定期重放
+ */
+function stopOutboxReplayers(): void {
+  for (const timer of outboxTimers.values()) {
+    clearInterval(timer);
   }
+  outboxTimers.clear();
+}
+
+// 企业微信要求 5 秒内响应，被动回复截止时间不能超过该上限
+const PASSIVE_REPLY_MAX_TIMEOUT_MS = 4500;
+
+/**
+ * 被动回复槽位
+ * 截止时间内就绪的第一条文本回复直接写入 webhook 响应，之后的回复走主动发送接口
+ */
+interface PassiveReplySlot {
+  // 尝试占用槽位，成功返回 true（调用方不再主动发送）
+  claim: (text: string) => boolean;
+  // 关闭槽位（超时或处理结束）
+  close: () => void;
+  // 槽位被占用时得到回复文本，关闭时得到 null
+  result: Promise<string | null>;
+}
+
+function createPassiveReplySlot(): PassiveReplySlot {
+  let open = true;
+  let resolve!: (text: string | null) => void;
+  const result = new Promise<string | null>((r) => {
+    resolve = r;
+  });
 
-  // 返回禁用的默认配置
   return {
-    accountId: id,
-    enabled: false,
-    corpId: "",
-    corpSecret: "",
-    agentId: "",
-    token: "",
-    encodingAesKey: "",
+    claim: (text: string) => {
+      if (!open) return false;
+      open = false;
+      resolve(text);
+      return true;
+    },
+    close: () => {
+      if (!open) return;
+      open = false;
+      resolve(null);
+    },
+    result,
   };
 }
 
 /**
- * 创建应用菜单
+ * 发送本地媒体文件：预检后按实际类型上传并发送，不满足图片、语音、视频要求时降级为文件
+ * 文件本身无法发送时抛出 MediaUploadError
  */
-async function createMenu(config: WeComAccountConfig): Promise<void> {
+async function sendLocalMedia(
+  accountConfig: WeComAccountConfig,
+  to: string,
+  filePath: string,
+  preferred?: MediaUploadType
+): Promise<MediaUploadType> {
   const logger = getWeComLogger();
-  try {
-    const accessToken = await WeComAPI.getAccessToken(config);
-    const url = `https://qyapi.weixin.qq.com/cgi-bin/menu/create?access_token=${accessToken}&agentid=${config.agentId}`;
-
-    const buttons = [
-      {
-        name: "会话",
-        sub_button: [
-          { type: "click", name: "新对话", key: "/reset" },
-          { type: "click", name: "压缩上下文", key: "/compact" },
-          { type: "click", name: "查看上下文", key: "/context" },
-          { type: "click", name: "停止生成", key: "/stop" },
-        ],
-      },
-      {
-        name: "模型",
-        sub_button: [
-          { type: "click", name: "切换模型", key: "/model" },
-          { type: "click", name: "GPT-5.2", key: "/model gpt-5.2" },
-          { type: "click", name: "Claude Opus", key: "/model claude-opus-4-5" },
-          { type: "click", name: "DeepSeek", key: "/model deepseek-chat" },
-        ],
-      },
-      {
-        name: "更多",
-        sub_button: [
-          { type: "click", name: "帮助", key: "/help" },
-          { type: "click", name: "状态", key: "/status" },
-          { type: "click", name: "命令列表", key: "/commands" },
-          { type: "click", name: "我是谁", key: "/whoami" },
-        ],
-      },
-    ];
+  const media = await prepareOutboundMedia(accountConfig, filePath, preferred);
+  if (media.downgradedFrom) {
+    logger.warn("媒体不满足企业微信要求，改为发送文件", { path: filePath, from: media.downgradedFrom, reason: media.reason });
+  }
 
-    const response = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ button: buttons }),
-    });
+  const mediaId = await WeComAPI.uploadMediaData(accountConfig, media.data, media.fileName, media.type);
+  switch (media.type) {
+    case "image":
+      await WeComAPI.sendWeComImage(accountConfig, to, mediaId);
+      break;
+    case "voice":
+      await WeComAPI.sendWeComVoice(accountConfig, to, mediaId);
+      break;
+    case "video":
+      await WeComAPI.sendWeComVideo(accountConfig, to, mediaId);
+      break;
+    default:
+      await WeComAPI.sendWeComFile(accountConfig, to, mediaId);
+      break;
+  }
+  logger.info("已发送媒体到企业微信", { to, path: filePath, type: media.type, mimeType: media.mimeType });
+  return media.type;
+}
 
-    const result = (await response.json()) as { errcode: number; errmsg: string };
+// 企业微信只允许撤回 24 小时内发送的消息
+const RECALL_WINDOW_MS = 24 * 60 * 60 * 1000;
 
-    if (result.errcode !== 0) {
-      logger.error("创建菜单失败", { error: `${result.errcode} ${result.errmsg}` });
-    } else {
-      logger.info("企业微信菜单创建成功");
+/**
+ * 处理 /undo 命令：撤回发给该用户的最后一条消息
+ */
+async function handleUndoCommand(msg: WeComAPI.WeComMessage, accountConfig: WeComAccountConfig): Promise<void> {
+  const logger = getWeComLogger();
+  const senderId = msg.FromUserName;
+  const chatId = resolveInboundChatId(msg, accountConfig);
+  const replyTo = chatId ? `chat:${chatId}` : senderId;
+  const last = WeComAPI.getSentMessages(accountConfig.accountId, senderId)[0];
+
+  let notice: string;
+  if (chatId) {
+    notice = "群聊消息不支持撤回";
+  } else if (!last) {
+    notice = "没有可撤回的消息";
+  } else if (Date.now() - last.sentAt > RECALL_WINDOW_MS) {
+    notice = "上一条消息已超过 24 小时，无法撤回";
+  } else {
+    try {
+      await WeComAPI.recallMessage(accountConfig, last.msgid);
+      notice = "已撤回上一条消息";
+      logger.info("已撤回消息", { to: senderId, msgid: last.msgid });
+    } catch (error) {
+      notice = `撤回失败: ${error instanceof Error ? error.message : "未知错误"}`;
+      logger.error("撤回消息失败", { to: senderId, msgid: last.msgid, error: String(error) });
+    }
+  }
+
+  // 提示消息本身不进入撤回索引，避免下一次 /undo 撤回的是提示
+  const result = await WeComAPI.sendWeComMessage(accountConfig, replyTo, notice);
+  if (result.msgid) {
+    WeComAPI.forgetSentMessage(accountConfig.accountId, result.msgid);
+  }
+}
+
+/**
+ * 处理 /stop 命令：中止该会话正在生成的回复，丢弃尚未发出的消息并告知用户
+ */
+async function handleStopCommand(msg: WeComAPI.WeComMessage, accountConfig: WeComAccountConfig): Promise<void> {
+  const { route, replyTo } = resolveInboundRoute(msg, accountConfig);
+  const stopped = abortRuns(route.sessionKey);
+  getWeComLogger().info("处理停止命令", { sessionKey: route.sessionKey, stopped });
+  await WeComAPI.sendWeComMessage(accountConfig, replyTo, stopped > 0 ? "已停止生成" : "当前没有正在生成的回复");
+}
+
+/**
+ * 处理管理员的 /pair 命令：list 列出待审批申请，approve/deny <userid> 批准或拒绝（审批卡片按钮同样发送该命令）
+ */
+async function handlePairCommand(
+  msg: WeComAPI.WeComMessage,
+  accountConfig: WeComAccountConfig,
+  text: string
+): Promise<void> {
+  const adminId = msg.FromUserName;
+  const [, action = "list", userId] = text.trim().split(/\s+/);
+
+  let notice: string;
+  if (!isAdmin(accountConfig, adminId)) {
+    notice = "只有管理员可以审批使用申请";
+  } else if (action === "approve" && userId) {
+    await approvePairingRequest(accountConfig, userId, adminId);
+    notice = `已批准 ${userId} 使用应用`;
+  } else if (action === "deny" && userId) {
+    notice = (await denyPairingRequest(accountConfig, userId))
+      ? `已拒绝 ${userId} 的使用申请`
+      : `已禁止 ${userId} 申请使用应用`;
+  } else {
+    const pending = Object.keys(readPairingState(accountConfig.accountId).pending);
+    notice = pending.length > 0
+      ? `待审批的使用申请：\n${pending.join("\n")}\n\n发送 /pair approve <userid> 批准，/pair deny <userid> 拒绝`
+      : "没有待审批的使用申请";
+  }
+
+  await WeComAPI.sendWeComMessage(accountConfig, adminId, notice);
+}
+
+/**
+ * 处理菜单中的 /model 点击：发送列出全部已配置模型的选择卡片
+ * 模板卡片只能发给用户本人，群聊会话中同样发给点击者
+ */
+async function handleModelMenuClick(msg: WeComAPI.WeComMessage, accountConfig: WeComAccountConfig): Promise<void> {
+  const models = listConfiguredModels(getWeComConfig());
+  if (models.length === 0) {
+    await WeComAPI.sendWeComMessage(accountConfig, msg.FromUserName, "未配置可切换的模型");
+    return;
+  }
+  await sendInteractiveCard(accountConfig, msg.FromUserName, buildModelCard(models), { commands: true });
+}
+
+/**
+ * 解析入站消息所属的应用群聊
+ * 优先使用回调中的 ChatId，其次使用账户配置的用户群聊绑定
+ */
+function resolveInboundChatId(msg: WeComAPI.WeComMessage, accountConfig: WeComAccountConfig): string | undefined {
+  return msg.ChatId || accountConfig.chatBindings?.[msg.FromUserName] || undefined;
+}
+
+/**
+ * 解析入站消息的会话路由
+ * 群聊会话：回调携带 ChatId 或用户绑定了应用群聊时，消息进入群聊会话（按 chatid 共享），回复发到群里
+ */
+function resolveInboundRoute(msg: WeComAPI.WeComMessage, accountConfig: WeComAccountConfig) {
+  const chatId = resolveInboundChatId(msg, accountConfig);
+  const isGroup = Boolean(chatId);
+  const peerId = isGroup ? `wecom:chat:${chatId}` : `wecom:${msg.FromUserName}`;
+  const replyTo = isGroup ? `chat:${chatId}` : msg.FromUserName;
+  const route = getWeComRuntime().channel.routing.resolveAgentRoute({
+    cfg: getWeComConfig(),
+    channel: "wecom",
+    accountId: accountConfig.accountId,
+    peer: {
+      kind: isGroup ? "group" : "dm",
+      id: peerId,
+    },
+  });
+  return { chatId, isGroup, peerId, replyTo, route };
+}
+
+// 从通讯录读取的发送者信息
+interface SenderProfile {
+  userId: string;
+  name?: string;
+  // 部门路径（由上级到下级，以 "/" 分隔）
+  department?: string;
+  position?: string;
+}
+
+/**
+ * 按 senderProfile 配置从通讯录读取发送者信息（结果缓存，查询失败时只返回 userid）
+ */
+async function resolveSenderProfile(accountConfig: WeComAccountConfig, userId: string): Promise<SenderProfile> {
+  const options = { name: true, department: false, position: false, ...accountConfig.senderProfile };
+  const profile: SenderProfile = { userId };
+  if (!options.name && !options.department && !options.position) {
+    return profile;
+  }
+
+  try {
+    const user = await WeComAPI.getDirectoryUser(accountConfig, userId);
+    // 新建应用的 user/get 不再返回姓名时，name 为空或与 userid 相同
+    if (options.name && user.name && user.name !== userId) {
+      profile.name = user.name;
+    }
+    if (options.position && user.position) {
+      profile.position = user.position;
+    }
+    const departmentId = user.main_department ?? user.department?.[0];
+    if (options.department && departmentId !== undefined) {
+      const chain = await WeComAPI.resolveDepartmentChain(accountConfig, departmentId);
+      profile.department = chain.reverse().map((item) => item.name || String(item.id)).join("/") || undefined;
     }
   } catch (error) {
-    logger.error("创建菜单异常", {
-      error: error instanceof Error ? error.message : "Unknown",
+    getWeComLogger().warn("读取发送者通讯录信息失败", {
+      userId,
+      error: error instanceof Error ? error.message : String(error),
     });
   }
+  return profile;
+}
+
+/**
+ * 发送者显示名称：姓名（部门 · 职务），没有姓名时使用 userid
+ */
+function formatSenderLabel(profile: SenderProfile): string {
+  const details = [profile.department, profile.position].filter(Boolean).join(" · ");
+  const name = profile.name ?? profile.userId;
+  return details ? `${name}（${details}）` : name;
+}
+
+// 入站队列：每个发送者默认最多排队的消息数
+const DEFAULT_INBOUND_MAX_PENDING = 20;
+// 可合并的短消息最大长度（字符）
+const COALESCE_MAX_CHARS = 200;
+// 队列已满提示的最小间隔：同一发送者在该时间内只提示一次
+const QUEUE_FULL_NOTICE_INTERVAL_MS = 60 * 1000;
+// 最近一次队列已满提示的时间：accountId:senderId -> 时间戳
+const queueFullNoticeAt = new Map<string, number>();
+
+// 排队处理的入站消息
+interface InboundItem {
+  msg: WeComAPI.WeComMessage;
+  text: string;
+  passiveSlot?: PassiveReplySlot;
+}
+
+/**
+ * 将入站消息加入发送者队列（按账户与发送者串行处理，避免并发处理导致回复乱序）
+ * 队列已满时返回 null
+ */
+function queueInboundMessage(item: InboundItem, accountConfig: WeComAccountConfig): Promise<void> | null {
+  const options = {
+    maxPending: accountConfig.inboundQueue?.maxPending ?? DEFAULT_INBOUND_MAX_PENDING,
+    coalesceMs: (accountConfig.inboundQueue?.coalesceSec ?? 0) * 1000,
+  };
+
+  const key = `${accountConfig.accountId}:${item.msg.FromUserName}`;
+  const queued = enqueueInbound(key, item, options, {
+    process: (queued) =>
+      processInboundMessage(queued.msg, queued.text, accountConfig, queued.passiveSlot),
+    // 只合并不含命令的短文本消息
+    coalescable: (queued) =>
+      queued.msg.MsgType === "text" &&
+      !queued.text.trim().startsWith("/") &&
+      queued.text.length <= COALESCE_MAX_CHARS,
+    merge: (target, queued) => {
+      target.text += `\n${queued.text}`;
+      // 合并后只使用第一条消息的被动回复槽位
+      queued.passiveSlot?.close();
+    },
+  });
+
+  if (!queued) {
+    notifyQueueFull(key, item.msg.FromUserName, accountConfig);
+  }
+  return queued;
+}
+
+/**
+ * 告知发送者消息因排队过多被丢弃（同一发送者每分钟最多提示一次）
+ */
+function notifyQueueFull(key: string, senderId: string, accountConfig: WeComAccountConfig): void {
+  const now = Date.now();
+  for (const [noticeKey, at] of queueFullNoticeAt) {
+    if (now - at >= QUEUE_FULL_NOTICE_INTERVAL_MS) queueFullNoticeAt.delete(noticeKey);
+  }
+  if (queueFullNoticeAt.has(key)) return;
+  queueFullNoticeAt.set(key, now);
+
+  WeComAPI.sendWeComMessage(accountConfig, senderId, "消息太多，正在处理之前的消息，这条消息已忽略，请稍后再发").catch((error) => {
+    getWeComLogger().warn("发送队列已满提示失败", {
+      senderId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  });
 }
 
 /**
@@ -352,18 +824,13 @@ async function createMenu(config: WeComAccountConfig): Promise<void> {
 const processingMessages = new Set<string>();
 
 async function processInboundMessage(
-  msg: Record<string, string>,
+  msg: WeComAPI.WeComMessage,
   text: string,
   accountConfig: WeComAccountConfig,
-  mediaFilePath?: string
+  passiveSlot?: PassiveReplySlot
 ): Promise<void> {
-  const runtime = getWeComRuntime();
-  const config = getWeComConfig();
   const logger = getWeComLogger();
-
-  const senderId = msg.FromUserName;
   const messageId = msg.MsgId || `${Date.now()}`;
-  const timestamp = parseInt(msg.CreateTime || "0", 10) * 1000;
   
   // 处理级别的去重：防止同一消息被并发处理
   const processingKey = `${messageId}_${msg.CreateTime}`;
@@ -378,17 +845,73 @@ async function processInboundMessage(
     processingMessages.delete(processingKey);
   }, 300000);
 
-  logger.info("处理企业微信消息", { senderId, text, messageId, mediaFilePath });
+  // 解析路由（群聊按 chatid 共享会话）
+  const inbound = resolveInboundRoute(msg, accountConfig);
 
-  // 解析路由
-  const route = runtime.channel.routing.resolveAgentRoute({
-    cfg: config,
-    channel: "wecom",
-    accountId: accountConfig.accountId,
-    peer: {
-      kind: "dm",
-      id: `wecom:${senderId}`,
-    },
+  // 登记本次生成（包括媒体下载与语音转写），/stop 时中止；中止后的回复不再发往企业微信
+  const run = beginRun(inbound.route.sessionKey);
+  try {
+    await handleInboundRun(msg, text, accountConfig, inbound, run, passiveSlot);
+  } finally {
+    endRun(inbound.route.sessionKey, run);
+  }
+}
+
+/**
+ * 下载媒体、转写语音并分发回复，run 中止后不再继续处理
+ */
+async function handleInboundRun(
+  msg: WeComAPI.WeComMessage,
+  text: string,
+  accountConfig: WeComAccountConfig,
+  inbound: ReturnType<typeof resolveInboundRoute>,
+  run: AbortController,
+  passiveSlot?: PassiveReplySlot
+): Promise<void> {
+  const runtime = getWeComRuntime();
+  const config = getWeComConfig();
+  const logger = getWeComLogger();
+
+  const senderId = msg.FromUserName;
+  const messageId = msg.MsgId || `${Date.now()}`;
+  const timestamp = parseInt(msg.CreateTime || "0", 10) * 1000;
+  const { chatId, isGroup, peerId, replyTo, route } = inbound;
+
+  // 媒体消息：下载并转换为文本描述
+  let attachments: InboundAttachment[] = [];
+  if (msg.MsgType === "image" || msg.MsgType === "voice" || msg.MsgType === "video" || msg.MsgType === "file") {
+    const mediaResult = await processMediaMessage(msg, accountConfig, run.signal);
+    text = mediaResult.text;
+    attachments = mediaResult.attachments;
+  }
+
+  // 语音转写：识别结果作为消息正文，音频仍作为附件
+  const transcript = await transcribeVoiceAttachments(attachments, accountConfig, run.signal);
+  if (transcript) {
+    text = transcript;
+    logger.info("语音已转写", { messageId, length: transcript.length });
+  }
+
+  if (run.signal.aborted) {
+    logger.info("消息处理已停止", { messageId, sessionKey: route.sessionKey });
+    return;
+  }
+
+  // 发送者姓名、部门与职务
+  const sender = await resolveSenderProfile(accountConfig, senderId);
+  const senderLabel = formatSenderLabel(sender);
+
+  // 交互卡片回调：把任务 id、按钮与所选选项作为结构化上下文传给 Agent
+  const cardEvent = msg.MsgType === "event" && msg.Event === "template_card_event"
+    ? describeCardEvent(accountConfig.accountId, msg)
+    : undefined;
+
+  logger.info("处理企业微信消息", {
+    senderId,
+    chatId,
+    text,
+    messageId,
+    attachments: attachments.map((attachment) => attachment.path),
   });
 
   // 格式化消息
@@ -402,23 +925,16 @@ async function processInboundMessage(
     sessionKey: route.sessionKey,
   });
 
-  // 如果有媒体文件，在消息体中添加附件信息
-  let bodyText = text;
-  if (mediaFilePath) {
-    // 附件信息会被 AI 识别处理
-    bodyText = text;
-  }
-
   const body = runtime.channel.reply.formatAgentEnvelope({
     channel: "WeCom",
-    from: senderId,
+    from: senderLabel,
     timestamp,
     previousTimestamp,
     envelope: envelopeOptions,
-    body: bodyText,
+    body: text,
   });
 
-  // 构建上下文，包含媒体附件信息
+  // 构建上下文，媒体附件通过 MediaPath/MediaPaths 等字段传递
   const ctxPayload = runtime.channel.reply.finalizeInboundContext({
     Body: body,
     RawBody: text,
@@ -427,18 +943,20 @@ async function processInboundMessage(
     To: `wecom:${accountConfig.agentId}`,
     SessionKey: route.sessionKey,
     AccountId: route.accountId,
-    ChatType: "direct",
-    ConversationLabel: senderId,
-    SenderName: senderId,
+    ChatType: isGroup ? "group" : "direct",
+    ConversationLabel: isGroup ? `chat:${chatId}` : senderLabel,
+    ...(isGroup ? { GroupSubject: chatId } : {}),
+    SenderName: sender.name ?? senderId,
     SenderId: senderId,
-    CommandAuthorized: true,
+    CommandAuthorized: isCommandAuthorized(accountConfig, senderId),
     Provider: "wecom",
     Surface: "wecom",
     MessageSid: messageId,
     OriginatingChannel: "wecom",
-    OriginatingTo: `wecom:${senderId}`,
-    // 添加媒体附件信息（如果有）
-    ...(mediaFilePath ? { MediaAttachment: mediaFilePath } : {}),
+    OriginatingTo: peerId,
+    ...(sender.department || sender.position ? { WeComSender: sender } : {}),
+    ...(cardEvent ? { WeComCardEvent: cardEvent } : {}),
+    ...buildMediaContext(attachments),
   });
 
   // 记录会话
@@ -464,18 +982,31 @@ async function processInboundMessage(
   // 回复去重：记录已发送的回复内容哈希，防止重复发送
   const sentReplies = new Set<string>();
 
-  // 分发回复
-  await runtime.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
+  // 流式卡片模式（仅单聊，群聊不支持更新模板卡片）
+  const streamingCard = accountConfig.streamingCard && !isGroup
+    ? createStreamingCard(accountConfig, senderId)
+    : null;
+  if (streamingCard) {
+    await streamingCard.start();
+  }
+
+  // 分发回复（在中止信号上下文中发送，停止后排队中的消息被丢弃）
+  await runWithAbortSignal(run.signal, () => runtime.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
     ctx: ctxPayload,
     cfg: config,
     dispatcherOptions: {
       deliver: async (payload: any) => {
+        if (run.signal.aborted) {
+          logger.info("回复已停止，丢弃后续内容", { to: replyTo });
+          return;
+        }
+
         const replyText = payload.text || payload.body || "";
-        const replyHash = `${senderId}_${replyText.slice(0, 100)}`;
+        const replyHash = `${replyTo}_${replyText.slice(0, 100)}`;
         
         // 检查是否已发送过相同内容
         if (sentReplies.has(replyHash)) {
-          logger.warn("[去重] 跳过重复回复", { to: senderId, textPreview: replyText.slice(0, 50) });
+          logger.warn("[去重] 跳过重复回复", { to: replyTo, textPreview: replyText.slice(0, 50) });
           return;
         }
         sentReplies.add(replyHash);
@@ -491,60 +1022,39 @@ async function processInboundMessage(
         try {
           let mediaSent = false;
 
-          // 辅助函数：根据文件扩展名判断媒体类型
-          const getMediaType = (filePath: string): "image" | "voice" | "video" | "file" => {
-            const ext = filePath.toLowerCase().split(".").pop() || "";
-            if (["jpg", "jpeg", "png", "gif", "webp", "bmp"].includes(ext)) {
-              return "image";
-            }
-            if (["amr", "mp3", "wav", "ogg", "m4a"].includes(ext)) {
-              return "voice";
-            }
-            if (["mp4", "mov", "avi", "wmv", "mkv", "flv"].includes(ext)) {
-              return "video";
-            }
-            return "file";
-          };
+          // Agent 请求的交互卡片：channelData.wecom.templateCard（完整卡片）或 choice（简化选择）
+          // 应用群聊不支持模板卡片，群聊会话中发给发送者本人
+          const wecomData = payload.channelData?.wecom;
+          if (wecomData?.templateCard || wecomData?.choice) {
+            const card = wecomData.templateCard ?? buildChoiceCard(wecomData.choice);
+            const cardTo = isGroup ? senderId : replyTo;
+            const result = await sendInteractiveCard(accountConfig, cardTo, card);
+            logger.info("已发送交互卡片到企业微信", { to: cardTo, cardType: card.card_type, msgid: result.msgid });
+          }
 
-          // 辅助函数：发送媒体文件
-          const sendMediaFile = async (filePath: string): Promise<boolean> => {
-            if (!fs.existsSync(filePath)) {
-              logger.warn("媒体文件不存在", { path: filePath });
-              return false;
+          // 流式卡片模式：纯文本回复交给卡片；遇到媒体回复时先结束卡片，保证消息顺序
+          if (streamingCard) {
+            const hasMedia = Boolean(
+              payload.mediaUrl || payload.mediaUrls?.length || payload.image ||
+              payload.file || payload.video || payload.voice || payload.audio
+            );
+            if (hasMedia) {
+              await streamingCard.finish();
+            } else if (replyText && (await streamingCard.push(replyText))) {
+              return;
             }
+          }
 
-            const mediaType = getMediaType(filePath);
+          // 辅助函数：发送媒体文件，失败时告知用户原因
+          const sendMediaFile = async (filePath: string, preferred?: MediaUploadType): Promise<boolean> => {
             try {
-              // 语音只支持 AMR 格式上传，其他格式作为文件发送
-              const uploadType = mediaType === "voice" && !filePath.toLowerCase().endsWith(".amr")
-                ? "file"
-                : mediaType;
-
-              const mediaId = await WeComAPI.uploadMedia(accountConfig, filePath, uploadType);
-
-              switch (uploadType) {
-                case "image":
-                  await WeComAPI.sendWeComImage(accountConfig, senderId, mediaId);
-                  logger.info("已发送图片到企业微信", { to: senderId, path: filePath });
-                  break;
-                case "voice":
-                  await WeComAPI.sendWeComVoice(accountConfig, senderId, mediaId);
-                  logger.info("已发送语音到企业微信", { to: senderId, path: filePath });
-                  break;
-                case "video":
-                  await WeComAPI.sendWeComVideo(accountConfig, senderId, mediaId);
-                  logger.info("已发送视频到企业微信", { to: senderId, path: filePath });
-                  break;
-                case "file":
-                default:
-                  await WeComAPI.sendWeComFile(accountConfig, senderId, mediaId);
-                  logger.info("已发送文件到企业微信", { to: senderId, path: filePath });
-                  break;
-              }
+              await sendLocalMedia(accountConfig, replyTo, filePath, preferred);
               return true;
             } catch (err) {
-              console.error(`[WECOM ERROR] Failed to send ${mediaType}:`, err);
-              logger.error(`发送${mediaType}失败`, { path: filePath, error: String(err) });
+              if (err instanceof SendAbortedError) throw err;
+              logger.error("发送媒体失败", { path: filePath, error: String(err) });
+              const reason = err instanceof MediaUploadError ? err.message : "上传或发送出错，请稍后重试";
+              await WeComAPI.sendWeComMessage(accountConfig, replyTo, `⚠️ 附件发送失败：${reason}`).catch(() => undefined);
               return false;
             }
           };
@@ -574,7 +1084,7 @@ async function processInboundMessage(
           if (payload.file) {
             const filePath = payload.file.path || payload.file.url;
             if (filePath) {
-              const sent = await sendMediaFile(filePath);
+              const sent = await sendMediaFile(filePath, "file");
               if (sent) mediaSent = true;
             }
           }
@@ -598,7 +1108,6 @@ async function processInboundMessage(
           }
 
           // 检查文本中是否包含媒体文件路径（临时方案）
-          const replyText = payload.text || payload.body || "";
           if (!mediaSent) {
             // 匹配常见媒体文件路径
             const mediaPathMatch = replyText.match(/[\/\\][^\s]+\.(png|jpg|jpeg|gif|webp|bmp|mp4|mov|avi|amr|mp3|wav|pdf|doc|docx|xls|xlsx|ppt|pptx|zip|rar)/i);
@@ -611,7 +1120,7 @@ async function processInboundMessage(
                   // 发送剩余文本（去掉文件路径）
                   const textWithoutPath = replyText.replace(mediaPathMatch[0], "").trim();
                   if (textWithoutPath && !textWithoutPath.match(/无法|失败|错误|缺失|Bug/)) {
-                    await WeComAPI.sendWeComMessage(accountConfig, senderId, textWithoutPath);
+                    await sendFormattedText(accountConfig, replyTo, textWithoutPath);
                   }
                   return;
                 }
@@ -631,10 +1140,31 @@ async function processInboundMessage(
                 return;
               }
             }
-            await WeComAPI.sendWeComMessage(accountConfig, senderId, replyText);
-            logger.info("已发送回复到企业微信", { to: senderId });
+            const format = resolveReplyFormat(accountConfig, replyText);
+            // 被动回复只能回给发送者本人且仅支持单条纯文本，群聊会话、Markdown 与需拆分的长回复不使用
+            if (
+              !isGroup &&
+              format === "text" &&
+              fitsSingleTextMessage(accountConfig, replyText) &&
+              passiveSlot?.claim(replyText)
+            ) {
+              logger.info("已通过被动回复发送到企业微信", { to: replyTo });
+              return;
+            }
+            const { format: sentFormat, parts, asFile, results } = await sendFormattedText(accountConfig, replyTo, replyText);
+            logger.info("已发送回复到企业微信", {
+              to: replyTo,
+              format: sentFormat,
+              parts,
+              asFile,
+              msgids: results.map((r) => r.msgid).filter(Boolean),
+            });
           }
         } catch (err) {
+          if (err instanceof SendAbortedError) {
+            logger.info("回复已停止，未发送的消息已丢弃", { to: replyTo });
+            return;
+          }
           console.error("[WECOM ERROR]", err);
           logger.error(`发送消息失败: ${String(err)}`);
           throw err;
@@ -644,10 +1174,26 @@ async function processInboundMessage(
         logger.error(`wecom 回复失败: ${String(err)}`, { info });
       },
     },
+    replyOptions: {
+      // 仅流式卡片模式需要分块推送
+      disableBlockStreaming: !streamingCard,
+      abortSignal: run.signal,
+    },
     tableMode,
+  })).finally(async () => {
+    if (run.signal.aborted) {
+      // 已停止：丢弃卡片暂存的内容
+      await streamingCard?.cancel();
+    } else {
+      // 发送卡片暂存的完整回复并把卡片标记为完成
+      await streamingCard?.finish();
+    }
   });
 }
 
+// 不做访问控制的事件（非成员主动发起的交互）
+const ACCESS_EXEMPT_EVENTS = new Set<string>(["unsubscribe", "batch_job_result", "change_contact"]);
+
 /**
  * HTTP Webhook 处理器
  */
@@ -656,9 +1202,10 @@ export async function handleWeComWebhook(
   res: any
 ): Promise<boolean> {
   const url = new URL(req.url ?? "/", "http://localhost");
-  const pathname = url.pathname;
 
-  if (!pathname.startsWith("/webhooks/wecom")) {
+  // 支持 /webhooks/wecom、/webhooks/wecom/<accountId> 与 ?account=<accountId>
+  const pathMatch = /^\/webhooks\/wecom(?:\/([^/]+))?\/?$/.exec(url.pathname);
+  if (!pathMatch) {
     return false;
   }
 
@@ -666,9 +1213,17 @@ export async function handleWeComWebhook(
   const signature = query.msg_signature;
   const timestamp = query.timestamp;
   const nonce = query.nonce;
-  const accountId = query.account ?? DEFAULT_ACCOUNT;
+  const accountId = (pathMatch[1] ? decodeURIComponent(pathMatch[1]) : undefined) ?? query.account ?? DEFAULT_ACCOUNT;
+
+  // 未声明的非默认账户直接拒绝，避免借用默认账户的凭证通过签名校验
+  const config = getWeComConfig();
+  if (accountId !== DEFAULT_ACCOUNT && !isDeclaredAccount(config, accountId)) {
+    res.statusCode = 404;
+    res.end("Account not found");
+    return true;
+  }
 
-  const accountConfig = resolveAccountConfig(getWeComConfig(), accountId);
+  const accountConfig = resolveAccountConfig(config, accountId);
 
   if (!accountConfig.enabled || !accountConfig.corpId) {
     res.statusCode = 404;
@@ -688,12 +1243,18 @@ export async function handleWeComWebhook(
     }
 
     if (!WeComAPI.validateSignature(accountConfig.token, timestamp, nonce, echostr, signature)) {
-      logger.warn("URL 验证签名失败");
+      recordCallbackRejection(accountConfig.accountId, "signature_mismatch", { method: "GET" });
       res.statusCode = 401;
       res.end("Invalid signature");
       return true;
     }
 
+    if (checkCallbackReplay(accountConfig.accountId, timestamp, nonce, signature, accountConfig.timestampToleranceSec)) {
+      res.statusCode = 403;
+      res.end("Replay rejected");
+      return true;
+    }
+
     try {
       const decrypted = WeComAPI.decryptMessage(
         accountConfig.encodingAesKey,
@@ -726,10 +1287,17 @@ export async function handleWeComWebhook(
 
     const body = await WeComAPI.readRequestBody(req);
     logger.info("[调试] 收到请求体", { length: body.length });
-    
-    const encryptMatch = /<Encrypt><!\[CDATA\[(.*?)\]\]><\/Encrypt>/s.exec(body);
 
-    if (!encryptMatch) {
+    let encryptedContent = "";
+    try {
+      encryptedContent = WeComAPI.parseXmlMessage(body).Encrypt ?? "";
+    } catch (error) {
+      logger.warn("[调试] 请求体 XML 解析失败", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (!encryptedContent) {
       logger.warn("[调试] 无法匹配加密内容", { bodyPreview: body.slice(0, 200) });
       res.statusCode = 400;
       res.setHeader("Content-Type", "application/json");
@@ -737,18 +1305,31 @@ export async function handleWeComWebhook(
       return true;
     }
 
-    const encryptedContent = encryptMatch[1];
     logger.info("[调试] 加密内容", { length: encryptedContent.length });
 
     if (!WeComAPI.validateSignature(accountConfig.token, timestamp, nonce, encryptedContent, signature)) {
-      logger.warn("[调试] 签名验证失败");
-      logger.warn("签名验证失败");
+      recordCallbackRejection(accountConfig.accountId, "signature_mismatch", { method: "POST" });
       res.statusCode = 401;
       res.setHeader("Content-Type", "application/json");
       res.end(JSON.stringify({ error: "Invalid signature" }));
       return true;
     }
 
+    // 时间窗口与 nonce 重放校验（签名通过后才记录 nonce）
+    const rejectReason = checkCallbackReplay(
+      accountConfig.accountId,
+      timestamp,
+      nonce,
+      signature,
+      accountConfig.timestampToleranceSec
+    );
+    if (rejectReason) {
+      res.statusCode = 403;
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ error: "Replay rejected", reason: rejectReason }));
+      return true;
+    }
+
     let decryptedXml: string;
     try {
       decryptedXml = WeComAPI.decryptMessage(
@@ -768,35 +1349,47 @@ export async function handleWeComWebhook(
       return true;
     }
 
-    const msg = WeComAPI.parseXmlMessage(decryptedXml);
-    
-    // 调试日志：输出解析后的消息内容
+    // 调试日志：输出解密后的消息内容
     logger.info("[调试] 解密后的 XML", { xml: decryptedXml.slice(0, 300) });
-    logger.info("[调试] 解析后的消息", { msg });
-    
+
+    let msg: WeComAPI.WeComMessage;
+    try {
+      msg = WeComAPI.parseWeComMessage(decryptedXml);
+    } catch (error) {
+      logger.error("解析消息失败", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.statusCode = 400;
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ error: "Invalid message XML" }));
+      return true;
+    }
+
+    const eventName = msg.MsgType === "event" ? msg.Event : "";
+
     // 生成消息唯一标识（MsgId 或 事件类型+时间戳+用户）
-    const messageId = msg.MsgId || `${msg.MsgType}_${msg.Event || ''}_${msg.CreateTime}_${msg.FromUserName}`;
+    const messageId = msg.MsgId || `${msg.MsgType}_${eventName}_${msg.CreateTime}_${msg.FromUserName}`;
     
     // 生成内容哈希（用于二次去重）
     const contentHash = generateContentHash(
-      msg.FromUserName || "",
-      msg.MsgType || "",
-      msg.Content || msg.MediaId || msg.EventKey || "",
-      msg.CreateTime || ""
+      msg.FromUserName,
+      msg.MsgType,
+      getMessageContentKey(msg),
+      msg.CreateTime
     );
 
     logger.info("收到企业微信消息", {
       type: msg.MsgType,
       from: msg.FromUserName,
-      event: msg.Event,
-      eventKey: msg.EventKey,
+      event: eventName || undefined,
+      eventKey: msg.MsgType === "event" ? msg.EventKey : undefined,
       msgId: messageId,
       contentHash: contentHash.slice(0, 50),
     });
 
     // 消息去重检查（企业微信可能因超时重试）
     // 使用双重去重：MsgId + 内容哈希
-    if (isMessageProcessed(messageId, contentHash)) {
+    if (isMessageProcessed(accountConfig, messageId, contentHash)) {
       logger.info("忽略重复消息", { msgId: messageId, contentHash: contentHash.slice(0, 50) });
       res.statusCode = 200;
       res.setHeader("Content-Type", "text/plain");
@@ -804,27 +1397,37 @@ export async function handleWeComWebhook(
       return true;
     }
 
+    // 访问控制：不在 allowFrom 中的成员发起配对申请或被拒绝，消息不进入会话（不下载媒体）
+    const accessChecked = msg.MsgType !== "event" || !ACCESS_EXEMPT_EVENTS.has(msg.Event);
+    if (accessChecked && !(await isSenderAllowed(accountConfig, msg.FromUserName))) {
+      logger.info("成员无使用权限", { from: msg.FromUserName });
+      res.statusCode = 200;
+      res.setHeader("Content-Type", "text/plain");
+      res.end("success");
+      handleUnauthorizedSender(accountConfig, msg.FromUserName).catch((err) => {
+        logger.error("处理无权限成员失败", {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      });
+      return true;
+    }
+
     let text = "";
-    let mediaFilePath: string | undefined;
-    const msgType = msg.MsgType;
 
     // 根据消息类型处理
-    switch (msgType) {
+    switch (msg.MsgType) {
       case "text":
         // 文本消息
-        text = msg.Content || "";
+        text = msg.Content;
         break;
 
       case "image":
       case "voice":
       case "video":
-      case "file": {
-        // 媒体消息：下载并转换为文本描述
-        const mediaResult = await processMediaMessage(msg, msgType as MediaMsgType, accountConfig);
-        text = mediaResult.text;
-        mediaFilePath = mediaResult.filePath;
+      case "file":
+        // 媒体消息：在排队处理时下载（/stop 可中止下载与转写），这里只记录类型标签
+        text = `[${MEDIA_LABELS[msg.MsgType]}]`;
         break;
-      }
 
       case "location":
         // 位置消息
@@ -838,40 +1441,71 @@ export async function handleWeComWebhook(
 
       case "event":
         // 事件消息
-        if (msg.Event === "click") {
-          // 菜单点击事件
-          text = msg.EventKey || "";
-        } else if (msg.Event === "subscribe") {
-          // 关注事件
-          text = "/help";
-          logger.info("用户关注", { user: msg.FromUserName });
-        } else if (msg.Event === "unsubscribe") {
-          // 取消关注事件
-          logger.info("用户取消关注", { user: msg.FromUserName });
-          res.statusCode = 200;
-          res.setHeader("Content-Type", "text/plain");
-          res.end("success");
-          return true;
-        } else if (msg.Event === "location") {
-          // 上报地理位置事件
-          text = `[位置上报] 纬度: ${msg.Latitude}, 经度: ${msg.Longitude}, 精度: ${msg.Precision}`;
-        } else {
-          // 其他事件，忽略
-          logger.info("忽略事件", { event: msg.Event });
-          res.statusCode = 200;
-          res.setHeader("Content-Type", "text/plain");
-          res.end("success");
-          return true;
+        switch (msg.Event) {
+          case "click":
+            // 菜单点击事件
+            text = msg.EventKey;
+            break;
+          case "subscribe":
+            // 关注事件
+            text = "/help";
+            logger.info("用户关注", { user: msg.FromUserName });
+            break;
+          case "location":
+            // 上报地理位置事件
+            text = `[位置上报] 纬度: ${msg.Latitude}, 经度: ${msg.Longitude}, 精度: ${msg.Precision}`;
+            break;
+          case "scancode_push":
+          case "scancode_waitmsg":
+            // 扫码事件
+            text = `[扫码] ${msg.ScanCodeInfo.ScanResult}`;
+            break;
+          case "location_select":
+            // 菜单选择位置事件
+            text = processLocationMessage(msg);
+            break;
+          case "unsubscribe":
+            // 取消关注事件
+            logger.info("用户取消关注", { user: msg.FromUserName });
+            break;
+          case "batch_job_result":
+            // 异步任务完成事件
+            logger.info("异步任务完成", { job: msg.BatchJob });
+            break;
+          case "change_contact":
+            // 通讯录变更事件：清除通讯录缓存，之后的发送者信息与访问控制使用最新数据
+            WeComAPI.clearDirectoryCache(accountConfig.accountId);
+            logger.info("通讯录变更", { changeType: msg.ChangeType, user: msg.UserID, department: msg.Id, tag: msg.TagId });
+            break;
+          case "template_card_event": {
+            // 模板卡片交互事件
+            const cardEvent = describeCardEvent(accountConfig.accountId, msg);
+            // 流式卡片的交互回调带有新的 ResponseCode，用于把卡片更新为已停止等状态
+            const streaming = refreshStreamingCard(msg.TaskId, msg.ResponseCode);
+            if ((streaming && msg.EventKey === "/stop") || isCommandCardEvent(accountConfig.accountId, msg)) {
+              // 插件自己的命令按钮（流式卡片的"停止生成"、模型选择与配对审批卡片）：所选选项 id 作为命令参数
+              text = [msg.EventKey, ...msg.SelectedItems.flatMap((item) => item.OptionIds)].join(" ");
+            } else {
+              // Agent 发起的交互卡片（按钮 key 即使以 / 开头也不作为命令）：回传选择结果
+              text = formatCardEventText(cardEvent);
+            }
+            // 插件登记过的卡片更新为已选择状态
+            if (isInteractiveCard(accountConfig.accountId, msg.TaskId)) {
+              void acknowledgeCardEvent(accountConfig, msg, cardEvent);
+            }
+            break;
+          }
+          default:
+            // 其他事件（如拍照发图事件，图片会以普通图片消息再次推送），忽略
+            logger.info("忽略事件", { event: msg.Event === "unknown" ? msg.OriginalEvent : msg.Event });
+            break;
         }
         break;
 
       default:
         // 未知消息类型
-        logger.warn("未知消息类型", { msgType });
-        res.statusCode = 200;
-        res.setHeader("Content-Type", "text/plain");
-        res.end("success");
-        return true;
+        logger.warn("未知消息类型", { msgType: msg.OriginalMsgType });
+        break;
     }
 
     // 忽略空消息
@@ -882,18 +1516,107 @@ export async function handleWeComWebhook(
       return true;
     }
 
+    // 菜单中不带参数的 /model：回复模型选择卡片，不进入 AI 会话
+    if (msg.MsgType === "event" && msg.Event === "click" && text.trim() === "/model") {
+      res.statusCode = 200;
+      res.setHeader("Content-Type", "text/plain");
+      res.end("success");
+      handleModelMenuClick(msg, accountConfig).catch((err) => {
+        logger.error("发送模型选择卡片失败", {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      });
+      return true;
+    }
+
+    // 停止命令（菜单、流式卡片按钮或手动输入）不排队，立即中止正在生成的回复
+    if (text.trim().toLowerCase() === "/stop") {
+      res.statusCode = 200;
+      res.setHeader("Content-Type", "text/plain");
+      res.end("success");
+      handleStopCommand(msg, accountConfig).catch((err) => {
+        logger.error("处理停止命令失败", {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      });
+      return true;
+    }
+
+    // 配对审批命令（管理员手动输入或点击审批卡片）
+    if (/^\/pair(\s|$)/i.test(text.trim())) {
+      res.statusCode = 200;
+      res.setHeader("Content-Type", "text/plain");
+      res.end("success");
+      handlePairCommand(msg, accountConfig, text).catch((err) => {
+        logger.error("处理配对命令失败", {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      });
+      return true;
+    }
+
+    // 撤回命令由插件直接处理，不进入 AI 会话
+    if (text.trim().toLowerCase() === "/undo") {
+      res.statusCode = 200;
+      res.setHeader("Content-Type", "text/plain");
+      res.end("success");
+      handleUndoCommand(msg, accountConfig).catch((err) => {
+        logger.error("处理撤回命令失败", {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      });
+      return true;
+    }
+
+    // 被动回复模式：在截止时间内等待回复，就绪则加密后直接写入响应
+    const passiveTimeoutMs = Math.min(accountConfig.passiveReplyTimeoutMs ?? 0, PASSIVE_REPLY_MAX_TIMEOUT_MS);
+    if (passiveTimeoutMs > 0) {
+      const slot = createPassiveReplySlot();
+      const timer = setTimeout(() => slot.close(), passiveTimeoutMs);
+
+      const processing = queueInboundMessage({ msg, text, passiveSlot: slot }, accountConfig);
+      if (processing) {
+        processing.finally(() => slot.close());
+      } else {
+        slot.close();
+      }
+
+      const replyText = await slot.result;
+      clearTimeout(timer);
+
+      if (replyText !== null) {
+        try {
+          const replyXml = WeComAPI.buildTextReplyXml(msg.FromUserName, accountConfig.corpId, replyText);
+          const encrypted = WeComAPI.buildEncryptedReply(accountConfig, replyXml);
+          res.statusCode = 200;
+          res.setHeader("Content-Type", "application/xml");
+          res.end(encrypted);
+          return true;
+        } catch (error) {
+          // 加密失败时改为主动发送，保证回复不丢失
+          logger.error("构建被动回复失败，改用主动发送", {
+            error: error instanceof Error ? error.message : String(error),
+          });
+          WeComAPI.sendWeComMessage(accountConfig, msg.FromUserName, replyText).catch((err) => {
+            logger.error(`发送消息失败: ${String(err)}`);
+          });
+        }
+      }
+
+      res.statusCode = 200;
+      res.setHeader("Content-Type", "text/plain");
+      res.end("success");
+      return true;
+    }
+
     // 立即响应企业微信，避免超时重试
     // 企业微信要求 5 秒内响应，否则会重试最多 3 次
     res.statusCode = 200;
     res.setHeader("Content-Type", "text/plain");
     res.end("success");
 
-    // 异步处理消息（传递媒体文件路径）
-    processInboundMessage(msg, text, accountConfig, mediaFilePath).catch((err) => {
-      logger.error("处理消息失败", {
-        error: err instanceof Error ? err.message : String(err),
-      });
-    });
+    // 按发送者排队异步处理（传递媒体附件）
+    queueInboundMessage({ msg, text }, accountConfig);
 
     return true;
   }
@@ -915,16 +1638,17 @@ export const wecomPlugin: ChannelPlugin<WeComAccountConfig> = {
   },
 
   capabilities: {
-    chatTypes: ["direct"],
+    chatTypes: ["direct", "group"],
     reactions: false,
     threads: false,
     media: true,
     nativeCommands: true,
-    blockStreaming: false,
+    blockStreaming: true,
   },
 
   reload: {
-    configPrefixes: ["channels.wecom"],
+    // 模型配置变化时同样重载，以重建菜单中的"模型"子菜单
+    configPrefixes: ["channels.wecom", "agents.defaults.model", "agents.defaults.models", "models.providers"],
   },
 
   configSchema: {
@@ -936,56 +1660,195 @@ export const wecomPlugin: ChannelPlugin<WeComAccountConfig> = {
         agentId: { type: "string", title: "应用ID (AgentID)" },
         token: { type: "string", title: "回调Token" },
         encodingAesKey: { type: "string", title: "消息加密密钥" },
+        passiveReplyTimeoutMs: { type: "number", title: "被动回复截止时间 (毫秒)" },
+        timestampToleranceSec: { type: "number", title: "回调时间戳允许偏差 (秒)" },
+        replyFormat: {
+          type: "string",
+          title: "文本回复格式",
+          enum: ["auto", "text", "markdown"],
+          default: "auto",
+        },
+        chunkMarkers: { type: "boolean", title: "长回复分段标记", default: false },
+        longReplyFileThresholdBytes: { type: "number", title: "长回复转文件阈值 (字节)" },
+        streamingCard: { type: "boolean", title: "流式卡片回复", default: false },
+        persistAccessToken: { type: "boolean", title: "持久化 access_token", default: false },
+        dedupe: {
+          type: "object",
+          title: "回调去重",
+          properties: {
+            store: { type: "string", enum: ["memory", "file"], default: "memory" },
+            ttlSec: { type: "number", default: 300 },
+            contentHash: { type: "boolean", default: true },
+          },
+        },
+        inboundQueue: {
+          type: "object",
+          title: "入站消息队列",
+          properties: {
+            maxPending: { type: "number", default: 20 },
+            coalesceSec: { type: "number", default: 0 },
+          },
+        },
+        outbox: {
+          type: "object",
+          title: "发件箱",
+          properties: {
+            enabled: { type: "boolean", default: true },
+            ttlSec: { type: "number", default: 1800 },
+          },
+        },
+        sendQueue: {
+          type: "object",
+          title: "出站发送队列",
+          properties: {
+            perUserPerMinute: { type: "number", default: 30 },
+            perUserPerHour: { type: "number", default: 1000 },
+            perAppPerMinute: { type: "number", default: 1000 },
+            maxRetries: { type: "number", default: 5 },
+            maxQueueSize: { type: "number", default: 1000 },
+          },
+        },
+        allowFrom: {
+          title: "访问控制",
+          description: "允许使用应用的成员 userid 列表，或 userid、部门 id（含子部门）与标签 id；未设置时不限制",
+          oneOf: [
+            { type: "array", items: { type: "string" } },
+            {
+              type: "object",
+              properties: {
+                users: { type: "array", items: { type: "string" } },
+                departments: { type: "array", items: { type: "number" } },
+                tags: { type: "array", items: { type: "number" } },
+              },
+            },
+          ],
+        },
+        admins: {
+          type: "array",
+          title: "管理员",
+          description: "管理员 userid，可以执行命令并审批配对申请；未设置时没有成员可以执行命令",
+          items: { type: "string" },
+        },
+        accessPolicy: { type: "string", title: "无权限成员处理", enum: ["pairing", "deny"], default: "pairing" },
+        media: {
+          type: "object",
+          title: "入站媒体存储",
+          properties: {
+            dir: { type: "string" },
+            maxBytes: { type: "number", default: 20971520 },
+            retentionHours: { type: "number", default: 168 },
+            maxTotalBytes: { type: "number", default: 1073741824 },
+            text: { type: "boolean", default: true },
+            exposePicUrl: { type: "boolean", default: false },
+          },
+        },
+        speechToText: {
+          type: "object",
+          title: "语音转文字",
+          properties: {
+            recognition: { type: "boolean", default: true },
+            hdVoice: { type: "boolean", default: false },
+            command: {
+              type: "object",
+              properties: {
+                path: { type: "string" },
+                args: { type: "array", items: { type: "string" } },
+                timeoutMs: { type: "number" },
+              },
+            },
+            http: {
+              type: "object",
+              properties: {
+                url: { type: "string" },
+                apiKey: { type: "string" },
+                model: { type: "string" },
+                language: { type: "string" },
+                timeoutMs: { type: "number" },
+              },
+            },
+          },
+        },
+        voiceTranscode: {
+          type: "object",
+          title: "语音回复转码",
+          description: "非 AMR 的语音回复转为 AMR-NB 后作为语音消息发送",
+          properties: {
+            enabled: { type: "boolean", default: true },
+            command: {
+              type: "object",
+              properties: {
+                path: { type: "string" },
+                args: { type: "array", items: { type: "string" } },
+                timeoutMs: { type: "number" },
+              },
+            },
+            timeoutMs: { type: "number" },
+          },
+        },
+        imageConvert: {
+          type: "object",
+          title: "图片格式转换",
+          description: "webp、bmp 图片转换为 PNG 后作为图片发送",
+          properties: {
+            enabled: { type: "boolean", default: true },
+            command: {
+              type: "object",
+              properties: {
+                path: { type: "string" },
+                args: { type: "array", items: { type: "string" } },
+                timeoutMs: { type: "number" },
+              },
+            },
+            timeoutMs: { type: "number" },
+          },
+        },
+        senderProfile: {
+          type: "object",
+          title: "发送者信息",
+          description: "从通讯录读取发送者姓名、部门路径与职务传给 AI",
+          properties: {
+            name: { type: "boolean", default: true },
+            department: { type: "boolean", default: false },
+            position: { type: "boolean", default: false },
+          },
+        },
+        chatBindings: {
+          type: "object",
+          title: "用户群聊绑定",
+          description: "userid -> chatid，绑定用户发给应用的消息进入群聊会话，回复发到群里",
+          additionalProperties: { type: "string" },
+        },
+        menu: {
+          title: "应用菜单",
+          description: "最多 3 个一级菜单、每个最多 5 个二级菜单；false 表示不管理菜单",
+          oneOf: [
+            { type: "boolean", const: false },
+            { type: "array", maxItems: 3, items: { type: "object" } },
+          ],
+        },
+        modelMenu: {
+          type: "object",
+          title: "模型子菜单",
+          description: "默认菜单中展示的模型（模型 id 或别名）与数量",
+          properties: {
+            models: { type: "array", items: { type: "string" } },
+            limit: { type: "number", minimum: 0, maximum: 4 },
+          },
+        },
+        accounts: {
+          type: "object",
+          title: "多账户配置",
+          description: "按账户 ID 覆盖 channels.wecom 中的默认配置",
+          additionalProperties: { type: "object" },
+        },
       },
-      required: ["corpId", "corpSecret", "agentId", "token", "encodingAesKey"],
     },
   },
 
   config: {
-    listAccountIds: (cfg) => {
-      const accounts = cfg.channels?.wecom?.accounts ?? {};
-      const ids = Object.keys(accounts);
-      // 如果有顶层配置，也返回 default
-      if (cfg.channels?.wecom?.corpId && !ids.includes(DEFAULT_ACCOUNT)) {
-        ids.push(DEFAULT_ACCOUNT);
-      }
-      return ids.length > 0 ? ids : [DEFAULT_ACCOUNT];
-    },
+    listAccountIds: (cfg) => listAccountIds(cfg),
 
-    resolveAccount: (cfg, accountId) => {
-      const id = accountId ?? DEFAULT_ACCOUNT;
-
-      // 从 channels.wecom.accounts 读取
-      const accounts = cfg.channels?.wecom?.accounts ?? {};
-      const account = accounts[id];
-      if (account) {
-        return { ...account, accountId: id };
-      }
-
-      // 从 channels.wecom 顶层读取
-      const channelConfig = cfg.channels?.wecom;
-      if (channelConfig && channelConfig.corpId) {
-        return {
-          accountId: id,
-          enabled: channelConfig.enabled ?? true,
-          corpId: channelConfig.corpId,
-          corpSecret: channelConfig.corpSecret,
-          agentId: channelConfig.agentId,
-          token: channelConfig.token,
-          encodingAesKey: channelConfig.encodingAesKey,
-        };
-      }
-
-      return {
-        accountId: id,
-        enabled: false,
-        corpId: "",
-        corpSecret: "",
-        agentId: "",
-        token: "",
-        encodingAesKey: "",
-      };
-    },
+    resolveAccount: (cfg, accountId) => resolveAccountConfig(cfg, accountId),
 
     defaultAccountId: () => DEFAULT_ACCOUNT,
 
@@ -1031,7 +1894,7 @@ export const wecomPlugin: ChannelPlugin<WeComAccountConfig> = {
       const config = getWeComConfig();
       const resolved = resolveAccountConfig(config, accountId);
       try {
-        await WeComAPI.sendWeComMessage(resolved, to, text);
+        await sendFormattedText(resolved, to, text);
         return { ok: true };
       } catch (error) {
         return {
@@ -1043,17 +1906,15 @@ export const wecomPlugin: ChannelPlugin<WeComAccountConfig> = {
     sendMedia: async ({ to, text, mediaUrl, accountId }) => {
       const config = getWeComConfig();
       const resolved = resolveAccountConfig(config, accountId);
-      const fs = await import("node:fs");
 
       try {
-        // 如果有媒体 URL，尝试发送图片
-        if (mediaUrl && fs.existsSync(mediaUrl)) {
-          const mediaId = await WeComAPI.uploadMedia(resolved, mediaUrl, "image");
-          await WeComAPI.sendWeComImage(resolved, to, mediaId);
+        // 按文件内容选择图片、语音、视频或文件
+        if (mediaUrl) {
+          await sendLocalMedia(resolved, to, mediaUrl);
         }
         // 发送文本
         if (text) {
-          await WeComAPI.sendWeComMessage(resolved, to, text);
+          await sendFormattedText(resolved, to, text);
         }
         return { ok: true };
       } catch (error) {
@@ -1066,19 +1927,31 @@ export const wecomPlugin: ChannelPlugin<WeComAccountConfig> = {
   },
 
   gateway: {
-    start: async () => {
+    start: async (ctx?: { cfg?: OpenClawConfig }) => {
       const logger = getWeComLogger();
+      // 重载时使用最新配置
+      if (ctx?.cfg) {
+        setWeComConfig(ctx.cfg);
+      }
       const config = getWeComConfig();
       logger.info("企业微信渠道已启动");
 
-      // 启动时创建菜单
-      const defaultConfig = resolveAccountConfig(config, DEFAULT_ACCOUNT);
-      if (defaultConfig.enabled && defaultConfig.corpId) {
-        await createMenu(defaultConfig);
+      // 启动时为每个已启用的账户同步菜单，并重放发件箱中未送达的消息
+      for (const accountId of listAccountIds(config)) {
+        const accountConfig = resolveAccountConfig(config, accountId);
+        if (accountConfig.enabled && accountConfig.corpId) {
+          await syncMenuOnStart(accountConfig);
+          startOutboxReplayer(accountConfig);
+          startMediaSweeper(accountConfig);
+        }
       }
     },
     stop: async () => {
       WeComAPI.clearTokenCache();
+      WeComAPI.clearDirectoryCache();
+      stopMediaSweepers();
+      stopOutboxReplayers();
+      clearNonceCache();
     },
   },
 
@@ -1121,6 +1994,14 @@ export const wecomPlugin: ChannelPlugin<WeComAccountConfig> = {
       }
     },
     getHealth: async () => ({ healthy: true }),
-    getDiagnostics: async () => ({ cachedTokens: WeComAPI["tokenCache"]?.size ?? 0 }),
+    getDiagnostics: async () => ({
+      accessTokens: getAccessTokenStats(),
+      callbackGuard: getCallbackGuardStats(),
+      trackedSentMessages: WeComAPI.getSentMessageCount(),
+      sendQueue: getSendQueueStats(),
+      dedupe: getDedupeStats(),
+      inboundQueue: getInboundQueueStats(),
+      activeRuns: getActiveRunStats(),
+    }),
   },
 };
@@ -0,0 +1,208 @@
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { WeComAccountConfig } from "./wecom-api.js";
+import { getWeComLogger, resolveWeComStateDir } from "./runtime.js";
+
+/**
+ * 回调去重存储
+ * 记录已处理的消息标识，在 TTL 内再次出现视为企业微信重试
+ */
+export interface DedupeStore {
+  // 是否已记录（未过期）
+  has: (key: string) => boolean;
+  // 记录标识
+  add: (key: string) => void;
+  // 当前记录数
+  size: () => number;
+}
+
+// 默认保留时间（秒）
+export const DEFAULT_DEDUPE_TTL_SEC = 300;
+// 每个账户最多保留的记录数
+const DEDUPE_MAX_SIZE = 5000;
+// 文件中的过期行超过该数量且多于有效记录时压缩
+const COMPACT_MIN_STALE_LINES = 1000;
+
+/**
+ * 内存去重存储（Map 按插入顺序迭代，最早的记录排在前面）
+ */
+export function createMemoryDedupeStore(ttlMs: number, maxSize: number = DEDUPE_MAX_SIZE): DedupeStore & {
+  entries: () => IterableIterator<[string, number]>;
+  set: (key: string, expiry: number) => void;
+} {
+  const records = new Map<string, number>();
+
+  const prune = (now: number) => {
+    for (const [key, expiry] of records) {
+      if (expiry > now) break;
+      records.delete(key);
+    }
+    while (records.size >= maxSize) {
+      const oldest = records.keys().next().value;
+      if (oldest === undefined) break;
+      records.delete(oldest);
+    }
+  };
+
+  const set = (key: string, expiry: number) => {
+    records.delete(key);
+    records.set(key, expiry);
+    if (records.size > maxSize) {
+      records.delete(records.keys().next().value!);
+    }
+  };
+
+  return {
+    has: (key) => {
+      const expiry = records.get(key);
+      return expiry !== undefined && expiry > Date.now();
+    },
+    add: (key) => {
+      const now = Date.now();
+      prune(now);
+      set(key, now + ttlMs);
+    },
+    size: () => records.size,
+    entries: () => records.entries(),
+    set,
+  };
+}
+
+/**
+ * 标识的哈希：标识（如内容哈希键）可能含换行与制表符，哈希后写入文件不会破坏行格式
+ */
+function hashKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex").slice(0, 32);
+}
+
+/**
+ * 文件去重存储：启动时从文件加载未过期的记录，新记录以 "过期时间\t标识哈希" 追加写入
+ * 过期行累积过多时重写文件（压缩）
+ */
+export function createFileDedupeStore(filePath: string, ttlMs: number, maxSize: number = DEDUPE_MAX_SIZE): DedupeStore {
+  const logger = getWeComLogger();
+  const memory = createMemoryDedupeStore(ttlMs, maxSize);
+  let lines = 0;
+
+  try {
+    const now = Date.now();
+    for (const line of fs.readFileSync(filePath, "utf8").split("\n")) {
+      const tab = line.indexOf("\t");
+      if (tab <= 0) continue;
+      lines++;
+      const expiry = Number(line.slice(0, tab));
+      if (expiry > now) {
+        memory.set(line.slice(tab + 1), expiry);
+      }
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      logger?.warn("读取去重记录失败", { filePath, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // 目录不可写时只使用内存记录，不影响回调处理
+  let persist = true;
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  } catch (error) {
+    persist = false;
+    logger?.warn("去重记录目录不可用，改用内存去重", {
+      filePath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  // 等待写入的记录行；写入在后台批量进行，不阻塞回调处理
+  let pending: string[] = [];
+  let flushing = false;
+
+  /**
+   * 只保留未过期的记录重写文件
+   */
+  const compact = async () => {
+    const now = Date.now();
+    let content = "";
+    let kept = 0;
+    for (const [key, expiry] of memory.entries()) {
+      if (expiry <= now) continue;
+      content += `${expiry}\t${key}\n`;
+      kept++;
+    }
+    await fs.promises.writeFile(`${filePath}.tmp`, content);
+    await fs.promises.rename(`${filePath}.tmp`, filePath);
+    lines = kept;
+  };
+
+  /**
+   * 追加等待写入的记录，过期行累积过多时压缩
+   */
+  const flush = async () => {
+    if (flushing) return;
+    flushing = true;
+    try {
+      while (pending.length > 0) {
+        const batch = pending;
+        pending = [];
+        try {
+          await fs.promises.appendFile(filePath, batch.join(""));
+          lines += batch.length;
+          if (lines - memory.size() > Math.max(COMPACT_MIN_STALE_LINES, memory.size())) {
+            await compact();
+          }
+        } catch (error) {
+          logger?.warn("写入去重记录失败", { filePath, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    } finally {
+      flushing = false;
+    }
+  };
+
+  return {
+    has: (key) => memory.has(hashKey(key)),
+    add: (key) => {
+      const hashed = hashKey(key);
+      memory.add(hashed);
+      if (!persist) return;
+      pending.push(`${Date.now() + ttlMs}\t${hashed}\n`);
+      void flush();
+    },
+    size: memory.size,
+  };
+}
+
+// 账户去重存储：accountId -> 存储
+const accountStores = new Map<string, { kind: string; store: DedupeStore }>();
+
+/**
+ * 获取账户的去重存储（按 dedupe.store 配置选择内存或文件存储）
+ */
+export function getDedupeStore(config: WeComAccountConfig): DedupeStore {
+  const kind = config.dedupe?.store ?? "memory";
+  const ttlSec = config.dedupe?.ttlSec ?? DEFAULT_DEDUPE_TTL_SEC;
+  const cacheKey = `${kind}:${ttlSec}`;
+
+  const cached = accountStores.get(config.accountId);
+  if (cached && cached.kind === cacheKey) {
+    return cached.store;
+  }
+
+  const store = kind === "file"
+    ? createFileDedupeStore(path.join(resolveWeComStateDir(), "dedupe", `${config.accountId}.log`), ttlSec * 1000)
+    : createMemoryDedupeStore(ttlSec * 1000);
+  accountStores.set(config.accountId, { kind: cacheKey, store });
+  return store;
+}
+
+/**
+ * 获取各账户去重记录数（用于诊断）
+ */
+export function getDedupeStats(): Record<string, { store: string; size: number }> {
+  const stats: Record<string, { store: string; size: number }> = {};
+  for (const [accountId, { kind, store }] of accountStores) {
+    stats[accountId] = { store: kind.split(":")[0], size: store.size() };
+  }
+  return stats;
+}
@@ -0,0 +1,142 @@
+import { getWeComLogger } from "./runtime.js";
+
+// 入站队列配置
+export interface InboundQueueOptions {
+  // 每个发送者最多排队的消息数（包括正在处理的消息）
+  maxPending: number;
+  // 合并窗口（毫秒）：窗口内连续到达的短消息合并为一轮处理；0 表示不合并
+  coalesceMs: number;
+}
+
+// 队列处理函数
+export interface InboundQueueHandlers<T> {
+  // 处理一条（或合并后的）消息
+  process: (item: T) => Promise<void>;
+  // 消息是否可以参与合并
+  coalescable?: (item: T) => boolean;
+  // 把新消息合并进队尾尚未开始处理的消息
+  merge?: (target: T, item: T) => void;
+}
+
+// 队列中的消息
+interface QueuedItem<T> {
+  item: T;
+  // 最近一次合并进来的时间，合并窗口从该时间起算
+  lastArrivalAt: number;
+  started: boolean;
+  done: Promise<void>;
+  resolve: () => void;
+}
+
+// 发送者队列
+interface SenderQueue {
+  items: QueuedItem<any>[];
+  running: boolean;
+}
+
+// 队列：accountId:senderId -> 发送者队列
+const senderQueues = new Map<string, SenderQueue>();
+let droppedCount = 0;
+
+/**
+ * 依次处理发送者队列中的消息
+ */
+async function drain<T>(
+  key: string,
+  queue: SenderQueue,
+  handlers: InboundQueueHandlers<T>,
+  coalesceMs: number
+): Promise<void> {
+  if (queue.running) return;
+  queue.running = true;
+
+  try {
+    while (queue.items.length > 0) {
+      const head = queue.items[0] as QueuedItem<T>;
+
+      // 可合并的消息在合并窗口结束前等待，窗口内到达的短消息可以继续合并进来
+      const waitMs = head.lastArrivalAt + coalesceMs - Date.now();
+      if (coalesceMs > 0 && waitMs > 0 && handlers.coalescable?.(head.item)) {
+        await new Promise<void>((resolve) => setTimeout(resolve, waitMs));
+        continue;
+      }
+
+      head.started = true;
+      try {
+        await handlers.process(head.item);
+      } catch (error) {
+        getWeComLogger()?.error("处理入站消息失败", {
+          key,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        queue.items.shift();
+        head.resolve();
+      }
+    }
+  } finally {
+    queue.running = false;
+    if (queue.items.length === 0) {
+      senderQueues.delete(key);
+    }
+  }
+}
+
+/**
+ * 将入站消息加入发送者队列，同一发送者的消息按到达顺序逐条处理
+ * 启用合并窗口时，窗口内连续到达的可合并消息合并进队尾尚未开始处理的消息
+ * 返回处理完成的 Promise；队列已满时返回 null（消息被丢弃）
+ */
+export function enqueueInbound<T>(
+  key: string,
+  item: T,
+  options: InboundQueueOptions,
+  handlers: InboundQueueHandlers<T>
+): Promise<void> | null {
+  let queue = senderQueues.get(key);
+  if (!queue) {
+    queue = { items: [], running: false };
+    senderQueues.set(key, queue);
+  }
+
+  const now = Date.now();
+  const last = queue.items[queue.items.length - 1] as QueuedItem<T> | undefined;
+  if (
+    options.coalesceMs > 0 &&
+    last &&
+    !last.started &&
+    now - last.lastArrivalAt <= options.coalesceMs &&
+    handlers.merge &&
+    handlers.coalescable?.(last.item) &&
+    handlers.coalescable(item)
+  ) {
+    handlers.merge(last.item, item);
+    last.lastArrivalAt = now;
+    return last.done;
+  }
+
+  if (queue.items.length >= options.maxPending) {
+    droppedCount++;
+    getWeComLogger()?.warn("发送者消息排队过多，丢弃新消息", { key, pending: queue.items.length });
+    return null;
+  }
+
+  let resolve!: () => void;
+  const done = new Promise<void>((r) => {
+    resolve = r;
+  });
+  queue.items.push({ item, lastArrivalAt: now, started: false, done, resolve });
+  void drain(key, queue, handlers, options.coalesceMs);
+  return done;
+}
+
+/**
+ * 获取入站队列统计（用于诊断）
+ */
+export function getInboundQueueStats(): { senders: number; pending: number; dropped: number } {
+  let pending = 0;
+  for (const queue of senderQueues.values()) {
+    pending += queue.items.length;
+  }
+  return { senders: senderQueues.size, pending, dropped: droppedCount };
+}
@@ -0,0 +1,224 @@
+import * as WeComAPI from "./wecom-api.js";
+import type { WeComAccountConfig, TemplateCard, TemplateCardEvent } from "./wecom-api.js";
+import { getWeComLogger } from "./runtime.js";
+
+// 交互卡片记录（用于把回调中的按钮 key、选项 id 还原为文字）
+interface InteractiveCardRecord {
+  to: string;
+  card: TemplateCard;
+  sentAt: number;
+  // 插件发出的命令卡片（模型选择、配对审批），按钮 key 作为命令执行
+  commands?: boolean;
+}
+
+// 已发送的交互卡片：accountId:taskId -> 记录
+const interactiveCards = new Map<string, InteractiveCardRecord>();
+const INTERACTIVE_CARD_TTL = 72 * 60 * 60 * 1000; // response_code 有效期 72 小时
+const INTERACTIVE_CARD_MAX_SIZE = 1000;
+// 按钮交互型卡片最多 6 个按钮
+const MAX_CARD_BUTTONS = 6;
+// 卡片按钮替换文字的最大长度
+const REPLACE_NAME_MAX_CHARS = 20;
+
+// 让用户做选择的简化描述（由 Agent 通过 channelData.wecom.choice 提供）
+export interface ChoiceRequest {
+  title: string;
+  description?: string;
+  options: Array<string | { id: string; text: string }>;
+  // 是否允许多选
+  multiple?: boolean;
+  taskId?: string;
+}
+
+// 卡片回调的结构化描述，作为入站上下文传给 Agent
+export interface CardEventContext {
+  taskId: string;
+  cardType: string;
+  title?: string;
+  // 点击的按钮 key（投票/多选卡片为提交按钮 key）
+  eventKey: string;
+  buttonText?: string;
+  selected: Array<{
+    questionKey: string;
+    optionIds: string[];
+    optionTexts: string[];
+  }>;
+}
+
+/**
+ * 生成卡片 task_id
+ */
+function generateTaskId(): string {
+  return `card_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * 清理过期记录，并在超出上限时淘汰最早的记录
+ */
+function pruneInteractiveCards(now: number): void {
+  for (const [key, record] of interactiveCards) {
+    if (now - record.sentAt > INTERACTIVE_CARD_TTL) {
+      interactiveCards.delete(key);
+    }
+  }
+  while (interactiveCards.size >= INTERACTIVE_CARD_MAX_SIZE) {
+    const oldest = interactiveCards.keys().next().value;
+    if (oldest === undefined) break;
+    interactiveCards.delete(oldest);
+  }
+}
+
+/**
+ * 根据简化的选择描述构建交互卡片
+ * 单选且选项不超过 6 个时使用按钮交互型，否则使用投票选择型
+ */
+export function buildChoiceCard(choice: ChoiceRequest): TemplateCard {
+  const options = choice.options.map((option, index) =>
+    typeof option === "string" ? { id: `option_${index + 1}`, text: option } : option
+  );
+  const taskId = choice.taskId ?? generateTaskId();
+  const mainTitle = { title: choice.title, ...(choice.description ? { desc: choice.description } : {}) };
+
+  if (!choice.multiple && options.length <= MAX_CARD_BUTTONS) {
+    return {
+      card_type: "button_interaction",
+      main_title: mainTitle,
+      task_id: taskId,
+      button_list: options.map((option) => ({ text: option.text, key: option.id, style: 1 })),
+    };
+  }
+
+  return {
+    card_type: "vote_interaction",
+    main_title: mainTitle,
+    task_id: taskId,
+    checkbox: {
+      question_key: "choice",
+      option_list: options,
+      mode: choice.multiple ? 1 : 0,
+    },
+    submit_button: { text: "提交", key: "submit" },
+  };
+}
+
+/**
+ * 发送交互卡片并登记，以便回调时还原用户的选择
+ * commands 为 true 表示插件自己的命令卡片，回调时按钮 key 作为命令执行；Agent 发起的卡片不设置
+ */
+export async function sendInteractiveCard(
+  config: WeComAccountConfig,
+  to: string,
+  card: TemplateCard,
+  options: { commands?: boolean } = {}
+): Promise<WeComAPI.WeComSendResult> {
+  const finalCard: TemplateCard = { ...card, task_id: card.task_id ?? generateTaskId() };
+  const result = await WeComAPI.sendWeComTemplateCard(config, to, finalCard);
+
+  const now = Date.now();
+  pruneInteractiveCards(now);
+  interactiveCards.set(`${config.accountId}:${finalCard.task_id}`, { to, card: finalCard, sentAt: now, commands: options.commands });
+
+  return result;
+}
+
+/**
+ * 把卡片回调整理为结构化上下文
+ */
+export function describeCardEvent(accountId: string, event: TemplateCardEvent): CardEventContext {
+  const record = interactiveCards.get(`${accountId}:${event.TaskId}`);
+  const card = record?.card;
+
+  // 选项 id -> 文字
+  const optionTexts = new Map<string, string>();
+  for (const option of card?.checkbox?.option_list ?? []) {
+    optionTexts.set(option.id, option.text);
+  }
+  for (const select of card?.select_list ?? []) {
+    for (const option of select.option_list) {
+      optionTexts.set(option.id, option.text);
+    }
+  }
+
+  const button = card?.button_list?.find((item) => item.key === event.EventKey);
+
+  return {
+    taskId: event.TaskId,
+    cardType: event.CardType || card?.card_type || "",
+    title: card?.main_title?.title,
+    eventKey: event.EventKey,
+    buttonText: button?.text ?? (card?.submit_button?.key === event.EventKey ? card.submit_button.text : undefined),
+    selected: event.SelectedItems.map((item) => ({
+      questionKey: item.QuestionKey,
+      optionIds: item.OptionIds,
+      optionTexts: item.OptionIds.map((id) => optionTexts.get(id) ?? id),
+    })),
+  };
+}
+
+/**
+ * 用户选择的文字摘要
+ */
+function summarizeChoice(context: CardEventContext): string {
+  const selectedTexts = context.selected.flatMap((item) => item.optionTexts);
+  if (selectedTexts.length > 0) {
+    return selectedTexts.join("、");
+  }
+  return context.buttonText ?? context.eventKey;
+}
+
+/**
+ * 生成给 Agent 的卡片回调文本
+ */
+export function formatCardEventText(context: CardEventContext): string {
+  let text = `[卡片回复] ${context.title ? `「${context.title}」` : ""}(任务 ${context.taskId})`;
+  if (context.selected.length > 0) {
+    for (const item of context.selected) {
+      text += `\n${item.questionKey}: ${item.optionTexts.join("、")}`;
+    }
+  } else {
+    text += `\n用户点击: ${context.buttonText ?? context.eventKey}`;
+  }
+  return text;
+}
+
+/**
+ * 把被点击的卡片更新为显示用户的选择
+ */
+export async function acknowledgeCardEvent(
+  config: WeComAccountConfig,
+  event: TemplateCardEvent,
+  context: CardEventContext
+): Promise<void> {
+  if (!event.ResponseCode) return;
+
+  const chars = Array.from(`已选择：${summarizeChoice(context)}`);
+  const replaceName = chars.length > REPLACE_NAME_MAX_CHARS
+    ? chars.slice(0, REPLACE_NAME_MAX_CHARS - 1).join("") + "…"
+    : chars.join("");
+
+  try {
+    await WeComAPI.updateWeComTemplateCard(config, [event.FromUserName], event.ResponseCode, { replaceName });
+  } catch (error) {
+    getWeComLogger()?.warn("更新卡片选择状态失败", {
+      taskId: event.TaskId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * 卡片是否由插件登记过（即 Agent 发起的交互卡片）
+ */
+export function isInteractiveCard(accountId: string, taskId: string): boolean {
+  return interactiveCards.has(`${accountId}:${taskId}`);
+}
+
+/**
+ * 回调是否点击了插件命令卡片上的命令按钮（key 必须是该卡片上的按钮或提交按钮）
+ */
+export function isCommandCardEvent(accountId: string, event: TemplateCardEvent): boolean {
+  const record = interactiveCards.get(`${accountId}:${event.TaskId}`);
+  if (!record?.commands) return false;
+  const keys = [...(record.card.button_list ?? []).map((button) => button.key), record.card.submit_button?.key];
+  return keys.includes(event.EventKey);
+}
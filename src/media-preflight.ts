@@ -0,0 +1,208 @@
+import { execFile } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { promisify } from "node:util";
+import type { WeComAccountConfig } from "./wecom-api.js";
+import { detectMimeType } from "./mime-sniff.js";
+import { prepareVoiceFile } from "./voice-transcoder.js";
+
+const execFileAsync = promisify(execFile);
+
+// 上传素材类型
+export type MediaUploadType = "image" | "voice" | "video" | "file";
+
+// 图片格式转换配置
+export type ImageConvertOptions = NonNullable<WeComAccountConfig["imageConvert"]>;
+
+// 企业微信临时素材限制：大小上限与支持的格式（所有类型都必须大于 5 字节）
+export const MEDIA_UPLOAD_LIMITS: Record<MediaUploadType, { maxBytes: number; mimeTypes?: string[] }> = {
+  image: { maxBytes: 10 * 1024 * 1024, mimeTypes: ["image/jpeg", "image/png"] },
+  voice: { maxBytes: 2 * 1024 * 1024, mimeTypes: ["audio/amr"] },
+  video: { maxBytes: 10 * 1024 * 1024, mimeTypes: ["video/mp4"] },
+  file: { maxBytes: 20 * 1024 * 1024 },
+};
+const MIN_UPLOAD_BYTES = 6;
+
+const TYPE_LABELS: Record<MediaUploadType, string> = { image: "图片", voice: "语音", video: "视频", file: "文件" };
+
+// 可以转换为 PNG 后作为图片发送的格式 -> ImageMagick 解码器
+// 只转换位图：SVG 可以通过 ImageMagick 委托读取外部 URL 与本地文件，作为文件发送
+const CONVERTIBLE_IMAGE_CODERS = new Map([
+  ["image/webp", "webp"],
+  ["image/bmp", "bmp"],
+]);
+
+// 默认使用 ImageMagick 转换：显式指定解码器（不按内容猜测格式），只取第一帧
+const DEFAULT_CONVERT_PATH = "magick";
+const DEFAULT_CONVERT_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * 素材不满足上传要求时抛出的错误，message 可以直接展示给用户
+ */
+export class MediaUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MediaUploadError";
+  }
+}
+
+// 预检后的素材
+export interface PreparedMedia {
+  type: MediaUploadType;
+  data: Buffer;
+  fileName: string;
+  mimeType: string;
+  // 降级为文件发送时的原类型与原因
+  downgradedFrom?: MediaUploadType;
+  reason?: string;
+}
+
+/**
+ * 格式化字节数
+ */
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)}MB` : `${Math.ceil(bytes / 1024)}KB`;
+}
+
+/**
+ * 检查素材大小是否满足指定类型的要求，不满足时抛出 MediaUploadError
+ */
+export function assertUploadSize(type: MediaUploadType, size: number, fileName: string): void {
+  const maxBytes = MEDIA_UPLOAD_LIMITS[type].maxBytes;
+  if (size < MIN_UPLOAD_BYTES) {
+    throw new MediaUploadError(`${fileName} 内容为空或过小，无法发送`);
+  }
+  if (size > maxBytes) {
+    throw new MediaUploadError(
+      `${fileName} 大小 ${formatBytes(size)}，超过企业微信${TYPE_LABELS[type]}上限 ${formatBytes(maxBytes)}`
+    );
+  }
+}
+
+/**
+ * 检查素材是否满足指定类型的大小与格式要求，不满足时抛出 MediaUploadError
+ * 返回识别出的 MIME 类型
+ */
+export function assertUploadable(type: MediaUploadType, data: Uint8Array, fileName: string): string {
+  assertUploadSize(type, data.length, fileName);
+  const mimeType = detectMimeType(data, fileName);
+  const mimeTypes = MEDIA_UPLOAD_LIMITS[type].mimeTypes;
+  if (mimeTypes && !mimeTypes.includes(mimeType)) {
+    throw new MediaUploadError(`${fileName} 格式为 ${mimeType}，企业微信${TYPE_LABELS[type]}不支持该格式`);
+  }
+  return mimeType;
+}
+
+/**
+ * 按 MIME 类型选择素材类型
+ */
+function uploadTypeFromMime(mimeType: string): MediaUploadType {
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("audio/")) return "voice";
+  if (mimeType.startsWith("video/")) return "video";
+  return "file";
+}
+
+/**
+ * 把图片转换为 PNG，未启用转换或转换失败时抛出错误
+ */
+async function convertToPng(
+  options: ImageConvertOptions | undefined,
+  filePath: string,
+  coder: string
+): Promise<Buffer> {
+  if (options?.enabled === false) {
+    throw new Error("图片格式转换未启用");
+  }
+  const command = options?.command ?? {
+    path: DEFAULT_CONVERT_PATH,
+    args: [`${coder}:{input}[0]`, "png:{output}"],
+    timeoutMs: options?.timeoutMs,
+  };
+  const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "wecom-convert-"));
+  const outputPath = path.join(tempDir, "output.png");
+  try {
+    const args = (command.args ?? []).map((arg) =>
+      arg.replaceAll("{input}", filePath).replaceAll("{output}", outputPath)
+    );
+    await execFileAsync(command.path, args, { timeout: command.timeoutMs ?? DEFAULT_CONVERT_TIMEOUT_MS });
+    return await fs.promises.readFile(outputPath);
+  } finally {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * 发送前预检媒体文件
+ * 按文件头选择图片、语音、视频或文件类型；webp/bmp 图片转换为 PNG，非 AMR 语音转码为 AMR；
+ * 不满足图片、语音、视频的格式或大小要求时降级为文件，文件本身不满足要求时抛出 MediaUploadError
+ * preferred 为 "file" 时始终作为文件发送
+ */
+export async function prepareOutboundMedia(
+  config: WeComAccountConfig,
+  filePath: string,
+  preferred?: MediaUploadType
+): Promise<PreparedMedia> {
+  const fileName = path.basename(filePath);
+  const stat = await fs.promises.stat(filePath).catch(() => null);
+  if (!stat?.isFile()) {
+    throw new MediaUploadError(`${fileName} 不存在或不是文件`);
+  }
+  // 超过文件上限时任何类型都无法发送，不读取文件
+  assertUploadSize("file", stat.size, fileName);
+
+  const data = await fs.promises.readFile(filePath);
+  const mimeType = detectMimeType(data, fileName);
+  const type = preferred === "file" ? "file" : uploadTypeFromMime(mimeType);
+
+  const asFile = (reason: string): PreparedMedia => {
+    assertUploadable("file", data, fileName);
+    return { type: "file", data, fileName, mimeType, downgradedFrom: type, reason };
+  };
+  const reasonOf = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+  switch (type) {
+    case "image": {
+      const coder = CONVERTIBLE_IMAGE_CODERS.get(mimeType);
+      if (coder) {
+        try {
+          const converted = await convertToPng(config.imageConvert, filePath, coder);
+          const convertedName = `${path.parse(fileName).name}.png`;
+          return {
+            type: "image",
+            data: converted,
+            fileName: convertedName,
+            mimeType: assertUploadable("image", converted, convertedName),
+          };
+        } catch (error) {
+          return asFile(`转换为 PNG 失败：${reasonOf(error)}`);
+        }
+      }
+      try {
+        return { type, data, fileName, mimeType: assertUploadable(type, data, fileName) };
+      } catch (error) {
+        return asFile(reasonOf(error));
+      }
+    }
+    case "voice": {
+      try {
+        const voicePath = await prepareVoiceFile(config, filePath);
+        const voiceData = voicePath === filePath ? data : await fs.promises.readFile(voicePath);
+        const voiceName = `${path.parse(fileName).name}.amr`;
+        return { type, data: voiceData, fileName: voiceName, mimeType: assertUploadable(type, voiceData, voiceName) };
+      } catch (error) {
+        return asFile(reasonOf(error));
+      }
+    }
+    case "video": {
+      try {
+        return { type, data, fileName, mimeType: assertUploadable(type, data, fileName) };
+      } catch (error) {
+        return asFile(reasonOf(error));
+      }
+    }
+    default:
+      return { type: "file", data, fileName, mimeType: assertUploadable("file", data, fileName) };
+  }
+}
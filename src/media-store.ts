@@ -0,0 +1,249 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { WeComAccountConfig } from "./wecom-api.js";
+import { getWeComLogger, resolveWeComStateDir } from "./runtime.js";
+import { detectMimeType, sniffMimeType } from "./mime-sniff.js";
+
+// 入站媒体存储配置
+export type MediaStorageOptions = NonNullable<WeComAccountConfig["media"]>;
+
+// 默认：单个文件 20MB（企业微信文件消息上限）、保留 7 天、每个账户最多占用 1GB；文本中描述附件，不暴露 PicUrl
+const DEFAULT_OPTIONS = {
+  maxBytes: 20 * 1024 * 1024,
+  retentionHours: 7 * 24,
+  maxTotalBytes: 1024 * 1024 * 1024,
+  text: true,
+  exposePicUrl: false,
+};
+// 定期清理间隔
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+// 文件名最大字节数（保留扩展名）
+const MAX_FILENAME_BYTES = 120;
+// 同名文件加序号的最大尝试次数，超过后改用随机后缀
+const MAX_NAME_ATTEMPTS = 100;
+// Windows 保留的设备名
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+
+// 已保存的入站媒体
+export interface StoredMedia {
+  filePath: string;
+  // 保存后的文件名（已清理）
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+// 各账户的定期清理定时器
+const sweepTimers = new Map<string, ReturnType<typeof setInterval>>();
+
+/**
+ * 合并默认值后的存储配置
+ */
+export function resolveMediaOptions(config: WeComAccountConfig): typeof DEFAULT_OPTIONS & { dir: string } {
+  return {
+    ...DEFAULT_OPTIONS,
+    ...config.media,
+    dir: config.media?.dir ?? path.join(resolveWeComStateDir(), "media"),
+  };
+}
+
+/**
+ * 截断到指定字节数（不拆分字符）
+ */
+function truncateBytes(text: string, maxBytes: number): string {
+  let result = "";
+  for (const ch of text) {
+    if (Buffer.byteLength(result + ch) > maxBytes) break;
+    result += ch;
+  }
+  return result;
+}
+
+/**
+ * 清理文件名：只保留最后一段路径，去掉控制字符与路径、保留字符，避免隐藏文件与设备名，限制长度
+ * 清理后为空时使用 fallback
+ */
+export function sanitizeFileName(name: string, fallback: string): string {
+  let cleaned = (name.normalize("NFC").split(/[\\/]/).pop() ?? "")
+    .replace(/[\u0000-\u001f\u007f<>:"|?*]/g, "_")
+    .replace(/\s+/g, " ")
+    .replace(/^[\s.]+|[\s.]+$/g, "");
+
+  if (RESERVED_NAMES.test(cleaned)) {
+    cleaned = `_${cleaned}`;
+  }
+
+  if (Buffer.byteLength(cleaned) > MAX_FILENAME_BYTES) {
+    const ext = path.extname(cleaned);
+    const keepExt = Buffer.byteLength(ext) <= 16 ? ext : "";
+    cleaned = truncateBytes(cleaned.slice(0, cleaned.length - keepExt.length), MAX_FILENAME_BYTES - Buffer.byteLength(keepExt)) + keepExt;
+  }
+
+  return cleaned || fallback;
+}
+
+/**
+ * 账户媒体目录
+ */
+export function accountMediaDir(config: WeComAccountConfig): string {
+  return path.join(resolveMediaOptions(config).dir, sanitizeFileName(config.accountId, "default"));
+}
+
+/**
+ * 以独占方式写入文件，同名文件存在时依次尝试 name-1.ext、name-2.ext…
+ */
+async function writeUniqueFile(dir: string, fileName: string, data: Buffer): Promise<string> {
+  const ext = path.extname(fileName);
+  const base = fileName.slice(0, fileName.length - ext.length);
+
+  for (let attempt = 0; ; attempt++) {
+    const candidate = attempt === 0
+      ? fileName
+      : attempt < MAX_NAME_ATTEMPTS
+        ? `${base}-${attempt}${ext}`
+        : `${base}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}${ext}`;
+    const filePath = path.join(dir, candidate);
+    try {
+      await fs.promises.writeFile(filePath, data, { flag: "wx", mode: 0o600 });
+      return filePath;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+  }
+}
+
+/**
+ * 保存入站媒体到 <媒体目录>/<账户>/<用户>/
+ * 文件名经过清理且不会覆盖已有文件；类型按文件头识别，缺少扩展名时按识别结果补全
+ */
+export async function saveInboundMedia(
+  config: WeComAccountConfig,
+  userId: string,
+  data: Buffer,
+  options: { fileName?: string; fallbackName: string; defaultExt?: string }
+): Promise<StoredMedia> {
+  const { maxBytes } = resolveMediaOptions(config);
+  if (data.length > maxBytes) {
+    throw new Error(`文件过大: ${data.length} 字节，超过上限 ${maxBytes} 字节`);
+  }
+
+  let fileName = sanitizeFileName(options.fileName ?? "", sanitizeFileName(options.fallbackName, "media"));
+  if (!path.extname(fileName)) {
+    const ext = sniffMimeType(data)?.ext ?? options.defaultExt;
+    if (ext) fileName += `.${ext}`;
+  }
+
+  const dir = path.join(accountMediaDir(config), sanitizeFileName(userId, "unknown"));
+  await fs.promises.mkdir(dir, { recursive: true, mode: 0o700 });
+  const filePath = await writeUniqueFile(dir, fileName, data);
+
+  return {
+    filePath,
+    fileName: path.basename(filePath),
+    mimeType: detectMimeType(data, fileName),
+    size: data.length,
+  };
+}
+
+/**
+ * 列出账户媒体目录下的文件
+ */
+async function listMediaFiles(root: string): Promise<Array<{ filePath: string; size: number; mtimeMs: number }>> {
+  const files: Array<{ filePath: string; size: number; mtimeMs: number }> = [];
+  let userDirs: fs.Dirent[];
+  try {
+    userDirs = await fs.promises.readdir(root, { withFileTypes: true });
+  } catch {
+    return files;
+  }
+
+  for (const userDir of userDirs) {
+    if (!userDir.isDirectory()) continue;
+    const dir = path.join(root, userDir.name);
+    for (const name of await fs.promises.readdir(dir).catch(() => [] as string[])) {
+      const filePath = path.join(dir, name);
+      const stat = await fs.promises.stat(filePath).catch(() => null);
+      if (stat?.isFile()) {
+        files.push({ filePath, size: stat.size, mtimeMs: stat.mtimeMs });
+      }
+    }
+  }
+  return files;
+}
+
+/**
+ * 按保留策略清理账户的入站媒体：删除超过保留时间的文件，总大小仍超过上限时从最旧的文件开始删除
+ * dryRun 时只统计不删除
+ */
+export async function sweepMedia(
+  config: WeComAccountConfig,
+  options: { dryRun?: boolean } = {}
+): Promise<{ removed: number; freedBytes: number; remainingFiles: number; remainingBytes: number }> {
+  const { retentionHours, maxTotalBytes } = resolveMediaOptions(config);
+  const root = accountMediaDir(config);
+  const cutoff = Date.now() - retentionHours * 60 * 60 * 1000;
+
+  const files = (await listMediaFiles(root)).sort((a, b) => a.mtimeMs - b.mtimeMs);
+  let totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+  const result = { removed: 0, freedBytes: 0, remainingFiles: files.length, remainingBytes: totalBytes };
+
+  for (const file of files) {
+    if (file.mtimeMs >= cutoff && totalBytes <= maxTotalBytes) break;
+    if (!options.dryRun) {
+      await fs.promises.rm(file.filePath, { force: true });
+    }
+    totalBytes -= file.size;
+    result.removed++;
+    result.freedBytes += file.size;
+  }
+
+  result.remainingFiles = files.length - result.removed;
+  result.remainingBytes = totalBytes;
+
+  if (!options.dryRun) {
+    // 删除已清空的用户目录
+    for (const name of await fs.promises.readdir(root).catch(() => [] as string[])) {
+      await fs.promises.rmdir(path.join(root, name)).catch(() => undefined);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 启动账户的定期清理（启动时先清理一次）
+ */
+export function startMediaSweeper(config: WeComAccountConfig): void {
+  const logger = getWeComLogger();
+  const sweep = () => {
+    sweepMedia(config)
+      .then((result) => {
+        if (result.removed > 0) {
+          logger?.info("已清理过期媒体文件", { accountId: config.accountId, ...result });
+        }
+      })
+      .catch((error) => {
+        logger?.warn("清理媒体文件失败", {
+          accountId: config.accountId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  };
+
+  clearInterval(sweepTimers.get(config.accountId));
+  sweep();
+  const timer = setInterval(sweep, SWEEP_INTERVAL_MS);
+  // 定期清理不阻止进程退出
+  timer.unref?.();
+  sweepTimers.set(config.accountId, timer);
+}
+
+/**
+ * 停止所有账户的定期清理
+ */
+export function stopMediaSweepers(): void {
+  for (const timer of sweepTimers.values()) {
+    clearInterval(timer);
+  }
+  sweepTimers.clear();
+}
@@ -0,0 +1,146 @@
+// 文件头特征：offset 处的字节与 bytes 一致时识别为对应类型
+interface MagicSignature {
+  mime: string;
+  ext: string;
+  offset?: number;
+  bytes: number[] | string;
+  // 需要同时满足的第二段特征（如 RIFF 容器的子类型）
+  also?: { offset: number; bytes: string };
+  // 特征过短时进一步检查文件头结构
+  validate?: (data: Uint8Array) => boolean;
+}
+
+// BMP 信息头（DIB header）的合法长度：BITMAPCOREHEADER、BITMAPINFOHEADER 及其扩展版本
+const BMP_DIB_HEADER_SIZES = new Set([12, 40, 52, 56, 64, 108, 124]);
+// BMP 文件头长度
+const BMP_FILE_HEADER_SIZE = 14;
+
+/**
+ * 检查 BMP 文件头："BM" 之后保留字段为 0，信息头长度合法，像素数据偏移不落在头部之内
+ */
+function isBmpHeader(data: Uint8Array): boolean {
+  if (data.length < BMP_FILE_HEADER_SIZE + 4) return false;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const reserved = view.getUint32(6, true);
+  const pixelOffset = view.getUint32(10, true);
+  const dibHeaderSize = view.getUint32(14, true);
+  return reserved === 0 && BMP_DIB_HEADER_SIZES.has(dibHeaderSize) && pixelOffset >= BMP_FILE_HEADER_SIZE + dibHeaderSize;
+}
+
+const SIGNATURES: MagicSignature[] = [
+  { mime: "image/jpeg", ext: "jpg", bytes: [0xff, 0xd8, 0xff] },
+  { mime: "image/png", ext: "png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mime: "image/gif", ext: "gif", bytes: "GIF8" },
+  { mime: "image/webp", ext: "webp", bytes: "RIFF", also: { offset: 8, bytes: "WEBP" } },
+  { mime: "image/bmp", ext: "bmp", bytes: "BM", validate: isBmpHeader },
+  { mime: "audio/amr", ext: "amr", bytes: "#!AMR\n" },
+  { mime: "audio/silk", ext: "silk", bytes: "#!SILK" },
+  { mime: "audio/silk", ext: "silk", offset: 1, bytes: "#!SILK" },
+  { mime: "audio/wav", ext: "wav", bytes: "RIFF", also: { offset: 8, bytes: "WAVE" } },
+  { mime: "audio/ogg", ext: "ogg", bytes: "OggS" },
+  { mime: "audio/mpeg", ext: "mp3", bytes: "ID3" },
+  { mime: "audio/mpeg", ext: "mp3", bytes: [0xff, 0xfb] },
+  { mime: "audio/mpeg", ext: "mp3", bytes: [0xff, 0xf3] },
+  { mime: "video/mp4", ext: "mp4", offset: 4, bytes: "ftyp" },
+  { mime: "video/x-msvideo", ext: "avi", bytes: "RIFF", also: { offset: 8, bytes: "AVI " } },
+  { mime: "video/webm", ext: "webm", bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { mime: "application/pdf", ext: "pdf", bytes: "%PDF-" },
+  { mime: "application/zip", ext: "zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mime: "application/gzip", ext: "gz", bytes: [0x1f, 0x8b] },
+  { mime: "application/x-7z-compressed", ext: "7z", bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { mime: "application/x-rar-compressed", ext: "rar", bytes: "Rar!" },
+  { mime: "application/x-ole-storage", ext: "doc", bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },
+];
+
+// 按扩展名推断的类型（无法从文件头识别时使用）
+const EXTENSION_MIME: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  bmp: "image/bmp",
+  svg: "image/svg+xml",
+  amr: "audio/amr",
+  silk: "audio/silk",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  m4a: "audio/mp4",
+  aac: "audio/aac",
+  flac: "audio/flac",
+  opus: "audio/ogg",
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  avi: "video/x-msvideo",
+  webm: "video/webm",
+  pdf: "application/pdf",
+  zip: "application/zip",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  txt: "text/plain",
+  md: "text/markdown",
+  csv: "text/csv",
+  json: "application/json",
+};
+
+/**
+ * 比较 offset 处的字节
+ */
+function matchesAt(data: Uint8Array, offset: number, bytes: number[] | string): boolean {
+  const expected = typeof bytes === "string" ? Array.from(Buffer.from(bytes, "latin1")) : bytes;
+  if (data.length < offset + expected.length) return false;
+  return expected.every((byte, index) => data[offset + index] === byte);
+}
+
+/**
+ * 根据文件头识别类型，无法识别时返回 undefined
+ */
+export function sniffMimeType(data: Uint8Array): { mime: string; ext: string } | undefined {
+  for (const signature of SIGNATURES) {
+    if (!matchesAt(data, signature.offset ?? 0, signature.bytes)) continue;
+    if (signature.also && !matchesAt(data, signature.also.offset, signature.also.bytes)) continue;
+    if (signature.validate && !signature.validate(data)) continue;
+    // QuickTime 与 MP4 共用 ftyp 容器，按品牌区分
+    if (signature.ext === "mp4" && matchesAt(data, 8, "qt  ")) {
+      return { mime: "video/quicktime", ext: "mov" };
+    }
+    if (signature.ext === "mp4" && matchesAt(data, 8, "M4A ")) {
+      return { mime: "audio/mp4", ext: "m4a" };
+    }
+    return { mime: signature.mime, ext: signature.ext };
+  }
+  // SVG 为文本格式，检查开头是否为 XML 声明或 <svg 标签
+  const head = Buffer.from(data.subarray(0, 256)).toString("utf8").trimStart().toLowerCase();
+  if (head.startsWith("<svg") || (head.startsWith("<?xml") && head.includes("<svg"))) {
+    return { mime: "image/svg+xml", ext: "svg" };
+  }
+  return undefined;
+}
+
+/**
+ * 按扩展名推断类型
+ */
+export function mimeFromExtension(fileName: string): string | undefined {
+  const dot = fileName.lastIndexOf(".");
+  return dot >= 0 ? EXTENSION_MIME[fileName.slice(dot + 1).toLowerCase()] : undefined;
+}
+
+// 容器格式：Office 文档等以 ZIP 或 OLE 封装，文件头相同，按扩展名细分
+const CONTAINER_MIMES = new Set(["application/zip", "application/x-ole-storage"]);
+
+/**
+ * 识别文件类型：优先使用文件头，其次使用扩展名，都无法识别时为 application/octet-stream
+ */
+export function detectMimeType(data: Uint8Array, fileName?: string): string {
+  const sniffed = sniffMimeType(data)?.mime;
+  const byExtension = fileName ? mimeFromExtension(fileName) : undefined;
+  if (sniffed && !(CONTAINER_MIMES.has(sniffed) && byExtension?.startsWith("application/"))) {
+    return sniffed;
+  }
+  return byExtension ?? sniffed ?? "application/octet-stream";
+}
@@ -0,0 +1,149 @@
+import type { WeComAccountConfig, MenuButton, TemplateCard } from "./wecom-api.js";
+import { byteLength } from "./reply-chunker.js";
+
+// 已配置的模型
+export interface ConfiguredModel {
+  // 完整模型 id（provider/model）
+  id: string;
+  alias?: string;
+}
+
+// 模型子菜单配置
+export type ModelMenuOptions = NonNullable<WeComAccountConfig["modelMenu"]>;
+
+// 子菜单最多 5 项，第一项为"全部模型"
+const MAX_MENU_MODELS = 4;
+// 二级菜单名称上限 40 字节
+const MAX_SUB_NAME_BYTES = 40;
+// 按钮交互型卡片最多 6 个按钮
+const MAX_CARD_BUTTONS = 6;
+// 投票选择型卡片最多 20 个选项
+const MAX_CARD_OPTIONS = 20;
+
+/**
+ * 读取 OpenClaw 配置中的模型
+ * 顺序：默认模型、agents.defaults.models、备用模型、models.providers 中声明的模型
+ */
+export function listConfiguredModels(cfg: any): ConfiguredModel[] {
+  const models = new Map<string, ConfiguredModel>();
+  const add = (id: unknown, alias?: unknown) => {
+    if (typeof id !== "string" || !id.trim()) return;
+    const existing = models.get(id);
+    if (existing) {
+      if (!existing.alias && typeof alias === "string" && alias) existing.alias = alias;
+      return;
+    }
+    models.set(id, { id, ...(typeof alias === "string" && alias ? { alias } : {}) });
+  };
+
+  const defaults = cfg?.agents?.defaults ?? {};
+  const modelConfig = defaults.model;
+  add(typeof modelConfig === "string" ? modelConfig : modelConfig?.primary);
+
+  for (const [id, entry] of Object.entries<any>(defaults.models ?? {})) {
+    add(id, entry?.alias);
+  }
+
+  for (const fallback of (typeof modelConfig === "object" && modelConfig?.fallbacks) || []) {
+    add(fallback);
+  }
+
+  for (const [provider, providerConfig] of Object.entries<any>(cfg?.models?.providers ?? {})) {
+    for (const model of providerConfig?.models ?? []) {
+      if (model?.id) add(`${provider}/${model.id}`);
+    }
+  }
+
+  return Array.from(models.values());
+}
+
+/**
+ * 选出菜单中展示的模型
+ * 配置了 models 时按配置顺序（支持别名），否则有别名的模型优先
+ */
+export function selectMenuModels(models: ConfiguredModel[], options: ModelMenuOptions = {}): ConfiguredModel[] {
+  const limit = Math.min(Math.max(options.limit ?? MAX_MENU_MODELS, 0), MAX_MENU_MODELS);
+
+  if (options.models?.length) {
+    return options.models
+      .map((ref) => models.find((model) => model.id === ref || model.alias === ref) ?? { id: ref })
+      .slice(0, limit);
+  }
+
+  const aliased = models.filter((model) => model.alias);
+  const others = models.filter((model) => !model.alias);
+  return [...aliased, ...others].slice(0, limit);
+}
+
+/**
+ * 模型的显示名称：别名或去掉 provider 前缀的 id
+ */
+function modelLabel(model: ConfiguredModel): string {
+  return model.alias ?? model.id.split("/").pop() ?? model.id;
+}
+
+/**
+ * 截断到指定字节数（不拆分字符）
+ */
+function truncateBytes(text: string, maxBytes: number): string {
+  let result = "";
+  for (const ch of text) {
+    if (byteLength(result + ch) > maxBytes) break;
+    result += ch;
+  }
+  return result;
+}
+
+/**
+ * 构建"模型"菜单：第一项列出全部模型，其后为常用模型的快捷切换
+ */
+export function buildModelMenu(models: ConfiguredModel[], options: ModelMenuOptions = {}): MenuButton {
+  const selected = selectMenuModels(models, options);
+  if (selected.length === 0) {
+    return { type: "click", name: "切换模型", key: "/model" };
+  }
+  return {
+    name: "模型",
+    sub_button: [
+      { type: "click", name: "全部模型", key: "/model" },
+      ...selected.map((model) => ({
+        type: "click" as const,
+        name: truncateBytes(modelLabel(model), MAX_SUB_NAME_BYTES),
+        key: `/model ${model.id}`,
+      })),
+    ],
+  };
+}
+
+/**
+ * 构建模型选择卡片
+ * 模型不超过 6 个时使用按钮交互型（按钮 key 即切换命令），否则使用投票选择型（选项 id 为模型 id）
+ */
+export function buildModelCard(models: ConfiguredModel[]): TemplateCard {
+  const taskId = `model_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const mainTitle = { title: "切换模型", desc: `共 ${models.length} 个可用模型` };
+
+  if (models.length <= MAX_CARD_BUTTONS) {
+    return {
+      card_type: "button_interaction",
+      main_title: mainTitle,
+      task_id: taskId,
+      button_list: models.map((model) => ({ text: modelLabel(model), key: `/model ${model.id}`, style: 1 })),
+    };
+  }
+
+  return {
+    card_type: "vote_interaction",
+    main_title: mainTitle,
+    task_id: taskId,
+    checkbox: {
+      question_key: "model",
+      option_list: models.slice(0, MAX_CARD_OPTIONS).map((model) => ({
+        id: model.id,
+        text: model.alias ? `${model.alias} (${model.id})` : model.id,
+      })),
+      mode: 0,
+    },
+    submit_button: { text: "切换", key: "/model" },
+  };
+}
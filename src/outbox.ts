@@ -0,0 +1,184 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { WeComAccountConfig } from "./wecom-api.js";
+import { getWeComLogger, resolveWeComStateDir } from "./runtime.js";
+
+// 默认有效期（秒）：超过后不再投递，避免过时的回复在数小时后送达
+export const DEFAULT_OUTBOX_TTL_SEC = 30 * 60;
+
+// 发件箱记录：发送前写入磁盘，发送成功后删除
+export interface OutboxEntry {
+  id: string;
+  accountId: string;
+  to: string;
+  msgtype: string;
+  // 消息内容（媒体消息为已上传素材的 media_id）
+  content: Record<string, unknown>;
+  createdAt: number;
+  expiresAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+// 本进程正在发送的记录，重放时跳过，避免重复发送
+const activeEntryIds = new Set<string>();
+// 已发送但删除记录失败的记录，本进程内不再重放
+const settledEntryIds = new Set<string>();
+
+/**
+ * 账户发件箱目录
+ */
+function outboxDir(accountId: string): string {
+  return path.join(resolveWeComStateDir(), "outbox", accountId);
+}
+
+/**
+ * 记录文件路径
+ */
+function entryPath(entry: Pick<OutboxEntry, "accountId" | "id">): string {
+  return path.join(outboxDir(entry.accountId), `${entry.id}.json`);
+}
+
+/**
+ * 写入记录（先写临时文件再重命名）
+ */
+async function writeEntry(entry: OutboxEntry): Promise<void> {
+  const filePath = entryPath(entry);
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(`${filePath}.tmp`, JSON.stringify(entry), { mode: 0o600 });
+  await fs.promises.rename(`${filePath}.tmp`, filePath);
+}
+
+/**
+ * 发件箱是否启用（默认启用）
+ */
+export function isOutboxEnabled(config: WeComAccountConfig): boolean {
+  return config.outbox?.enabled !== false;
+}
+
+/**
+ * 发送前写入发件箱；写入失败不影响发送，返回 null
+ */
+export async function addOutboxEntry(
+  config: WeComAccountConfig,
+  to: string,
+  msgtype: string,
+  content: Record<string, unknown>
+): Promise<OutboxEntry | null> {
+  const now = Date.now();
+  const ttlSec = config.outbox?.ttlSec ?? DEFAULT_OUTBOX_TTL_SEC;
+  const entry: OutboxEntry = {
+    id: `${now}-${Math.random().toString(36).slice(2, 10)}`,
+    accountId: config.accountId,
+    to,
+    msgtype,
+    content,
+    createdAt: now,
+    expiresAt: now + ttlSec * 1000,
+    attempts: 0,
+  };
+
+  try {
+    await writeEntry(entry);
+    activeEntryIds.add(entry.id);
+    return entry;
+  } catch (error) {
+    getWeComLogger()?.warn("写入发件箱失败", {
+      to,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * 发送成功（或无需重发）后删除记录
+ * 删除失败时不抛出错误，记录在本进程内不再重放
+ */
+export async function removeOutboxEntry(entry: OutboxEntry): Promise<void> {
+  activeEntryIds.delete(entry.id);
+  try {
+    await fs.promises.rm(entryPath(entry), { force: true });
+  } catch (error) {
+    settledEntryIds.add(entry.id);
+    getWeComLogger()?.warn("删除发件箱记录失败，该记录不再重放", {
+      id: entry.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * 占用记录准备重发；记录正在发送或已发送时返回 false
+ */
+export function claimOutboxEntry(entry: OutboxEntry): boolean {
+  if (activeEntryIds.has(entry.id) || settledEntryIds.has(entry.id)) return false;
+  activeEntryIds.add(entry.id);
+  return true;
+}
+
+/**
+ * 记录发送失败（保留在发件箱等待重放）
+ */
+export async function markOutboxFailure(entry: OutboxEntry, error: unknown): Promise<void> {
+  activeEntryIds.delete(entry.id);
+  entry.attempts++;
+  entry.lastError = error instanceof Error ? error.message : String(error);
+  try {
+    await writeEntry(entry);
+  } catch (writeError) {
+    getWeComLogger()?.warn("更新发件箱失败", {
+      id: entry.id,
+      error: writeError instanceof Error ? writeError.message : String(writeError),
+    });
+  }
+}
+
+/**
+ * 列出发件箱记录（按创建时间排序）
+ * 不指定账户时列出所有账户
+ */
+export async function listOutboxEntries(accountId?: string): Promise<OutboxEntry[]> {
+  const root = path.join(resolveWeComStateDir(), "outbox");
+  let accountIds: string[];
+  try {
+    accountIds = accountId ? [accountId] : await fs.promises.readdir(root);
+  } catch {
+    return [];
+  }
+
+  const entries: OutboxEntry[] = [];
+  for (const id of accountIds) {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(outboxDir(id));
+    } catch {
+      continue;
+    }
+    for (const file of files) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        entries.push(JSON.parse(await fs.promises.readFile(path.join(outboxDir(id), file), "utf8")));
+      } catch {
+        // 损坏或正在写入的记录，跳过
+      }
+    }
+  }
+
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * 清空发件箱，expiredOnly 时只删除已过期的记录
+ * 返回删除的数量
+ */
+export async function purgeOutbox(accountId?: string, options: { expiredOnly?: boolean } = {}): Promise<number> {
+  const now = Date.now();
+  let removed = 0;
+  for (const entry of await listOutboxEntries(accountId)) {
+    if (options.expiredOnly && entry.expiresAt > now) continue;
+    await removeOutboxEntry(entry);
+    removed++;
+  }
+  return removed;
+}
@@ -0,0 +1,99 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { resolveWeComStateDir } from "./runtime.js";
+
+// 账户配对记录：已批准的成员、等待审批与已拒绝的申请
+export interface PairingState {
+  approved: Record<string, { approvedAt: number; approvedBy?: string }>;
+  pending: Record<string, { requestedAt: number }>;
+  denied: Record<string, { deniedAt: number }>;
+}
+
+/**
+ * 账户配对记录文件路径
+ */
+function pairingFilePath(accountId: string): string {
+  return path.join(resolveWeComStateDir(), "pairing", `${accountId}.json`);
+}
+
+/**
+ * 转为无原型的记录对象，userid 为 constructor、__proto__ 等时不会命中 Object.prototype 上的属性
+ */
+function toRecord<T>(value: unknown): Record<string, T> {
+  const record: Record<string, T> = Object.create(null);
+  if (value && typeof value === "object") {
+    Object.assign(record, value);
+  }
+  return record;
+}
+
+/**
+ * 读取配对记录（CLI 与网关进程共用同一文件，每次读取最新内容）
+ */
+export function readPairingState(accountId: string): PairingState {
+  let data: any = {};
+  try {
+    data = JSON.parse(fs.readFileSync(pairingFilePath(accountId), "utf8"));
+  } catch {
+    // 文件不存在或损坏时视为没有记录
+  }
+  return { approved: toRecord(data?.approved), pending: toRecord(data?.pending), denied: toRecord(data?.denied) };
+}
+
+/**
+ * 写入配对记录（先写临时文件再重命名，权限 600）
+ */
+function writePairingState(accountId: string, state: PairingState): void {
+  const filePath = pairingFilePath(accountId);
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(tempPath, JSON.stringify(state, null, 2), { mode: 0o600 });
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * 成员是否已通过配对审批
+ */
+export function isPairingApproved(accountId: string, userId: string): boolean {
+  return Boolean(readPairingState(accountId).approved[userId]);
+}
+
+/**
+ * 登记配对申请，返回登记后的状态；已有申请、已批准或已拒绝时不重复登记
+ */
+export function addPairingRequest(
+  accountId: string,
+  userId: string
+): "created" | "pending" | "approved" | "denied" {
+  const state = readPairingState(accountId);
+  if (state.approved[userId]) return "approved";
+  if (state.denied[userId]) return "denied";
+  if (state.pending[userId]) return "pending";
+  state.pending[userId] = { requestedAt: Date.now() };
+  writePairingState(accountId, state);
+  return "created";
+}
+
+/**
+ * 批准成员（没有申请时同样可以直接批准）
+ */
+export function approvePairing(accountId: string, userId: string, approvedBy?: string): void {
+  const state = readPairingState(accountId);
+  delete state.pending[userId];
+  delete state.denied[userId];
+  state.approved[userId] = { approvedAt: Date.now(), ...(approvedBy ? { approvedBy } : {}) };
+  writePairingState(accountId, state);
+}
+
+/**
+ * 拒绝申请或撤销已批准的成员（之后不再接受该成员的申请），返回是否存在申请或批准记录
+ */
+export function denyPairing(accountId: string, userId: string): boolean {
+  const state = readPairingState(accountId);
+  const existed = Boolean(state.pending[userId] || state.approved[userId]);
+  delete state.pending[userId];
+  delete state.approved[userId];
+  state.denied[userId] = { deniedAt: Date.now() };
+  writePairingState(accountId, state);
+  return existed;
+}
@@ -0,0 +1,154 @@
+import { getWeComLogger } from "./runtime.js";
+
+// 回调请求被拒绝的原因
+export type CallbackRejectReason =
+  | "signature_mismatch"
+  | "timestamp_invalid"
+  | "timestamp_skew"
+  | "nonce_replayed";
+
+const REJECT_REASON_LABELS: Record<CallbackRejectReason, string> = {
+  signature_mismatch: "签名不匹配",
+  timestamp_invalid: "时间戳格式错误",
+  timestamp_skew: "时间戳超出允许的时钟偏差",
+  nonce_replayed: "nonce 重复（疑似重放）",
+};
+
+// 默认允许的时钟偏差（秒）
+export const DEFAULT_TIMESTAMP_TOLERANCE_SEC = 300;
+// 未启用时间窗口校验时 nonce 的保留时间（秒）
+const NONCE_FALLBACK_TTL_SEC = 300;
+// 每个账户最多缓存的 nonce 数量
+const NONCE_CACHE_MAX_SIZE = 5000;
+
+// nonce 缓存记录：过期时间与请求签名（签名覆盖消息体，用于识别完全相同的重试请求）
+interface NonceRecord {
+  expiresAt: number;
+  signature: string;
+}
+
+// nonce 缓存：accountId -> (timestamp:nonce -> 记录)
+const nonceCaches = new Map<string, Map<string, NonceRecord>>();
+// 完全相同的重复回调（企业微信重试）次数
+let retriedCount = 0;
+// 拒绝计数：reason -> 次数
+const rejectionCounts = new Map<CallbackRejectReason, number>();
+
+/**
+ * 记录一次回调拒绝（计数并输出日志）
+ */
+export function recordCallbackRejection(
+  accountId: string,
+  reason: CallbackRejectReason,
+  detail?: Record<string, unknown>
+): void {
+  rejectionCounts.set(reason, (rejectionCounts.get(reason) ?? 0) + 1);
+  getWeComLogger()?.warn(`[回调校验] 拒绝请求: ${REJECT_REASON_LABELS[reason]}`, {
+    accountId,
+    reason,
+    ...detail,
+  });
+}
+
+/**
+ * 清理某个账户的过期 nonce，并在超出上限时淘汰最早的记录
+ */
+function pruneNonceCache(cache: Map<string, NonceRecord>, now: number): void {
+  for (const [key, record] of cache) {
+    if (record.expiresAt <= now) {
+      cache.delete(key);
+    }
+  }
+  // Map 按插入顺序迭代，最早的记录排在前面
+  while (cache.size >= NONCE_CACHE_MAX_SIZE) {
+    const oldest = cache.keys().next().value;
+    if (oldest === undefined) break;
+    cache.delete(oldest);
+  }
+}
+
+/**
+ * 校验时间戳窗口与 nonce 是否重放
+ * 应在签名校验通过之后调用，避免未签名的请求污染 nonce 缓存
+ * timestamp、nonce 与签名都相同的请求是企业微信的重试（签名覆盖消息体），放行并交给消息去重处理；
+ * 同一 timestamp/nonce 搭配不同内容时视为重放
+ * 返回 null 表示通过，否则返回拒绝原因（已计数并记录日志）
+ */
+export function checkCallbackReplay(
+  accountId: string,
+  timestamp: string,
+  nonce: string,
+  signature: string,
+  toleranceSec: number = DEFAULT_TIMESTAMP_TOLERANCE_SEC
+): CallbackRejectReason | null {
+  const now = Date.now();
+  const ts = Number(timestamp);
+
+  if (!/^\d+$/.test(timestamp) || !Number.isSafeInteger(ts)) {
+    recordCallbackRejection(accountId, "timestamp_invalid", { timestamp });
+    return "timestamp_invalid";
+  }
+
+  // toleranceSec <= 0 表示不校验时间窗口
+  if (toleranceSec > 0) {
+    const skewSec = Math.abs(now / 1000 - ts);
+    if (skewSec > toleranceSec) {
+      recordCallbackRejection(accountId, "timestamp_skew", {
+        timestamp,
+        skewSec: Math.round(skewSec),
+        toleranceSec,
+      });
+      return "timestamp_skew";
+    }
+  }
+
+  let cache = nonceCaches.get(accountId);
+  if (!cache) {
+    cache = new Map();
+    nonceCaches.set(accountId, cache);
+  }
+
+  const key = `${timestamp}:${nonce}`;
+  const existing = cache.get(key);
+  if (existing && existing.expiresAt > now) {
+    if (existing.signature === signature) {
+      retriedCount++;
+      getWeComLogger()?.info("[回调校验] 收到重复回调（企业微信重试），交给消息去重处理", { accountId, timestamp, nonce });
+      return null;
+    }
+    recordCallbackRejection(accountId, "nonce_replayed", { timestamp, nonce });
+    return "nonce_replayed";
+  }
+
+  pruneNonceCache(cache, now);
+  const ttlSec = toleranceSec > 0 ? toleranceSec * 2 : NONCE_FALLBACK_TTL_SEC;
+  cache.set(key, { expiresAt: now + ttlSec * 1000, signature });
+
+  return null;
+}
+
+/**
+ * 获取回调校验统计（用于诊断）
+ */
+export function getCallbackGuardStats(): {
+  rejections: Record<string, number>;
+  retried: number;
+  cachedNonces: number;
+} {
+  let cachedNonces = 0;
+  for (const cache of nonceCaches.values()) {
+    cachedNonces += cache.size;
+  }
+  return {
+    rejections: Object.fromEntries(rejectionCounts),
+    retried: retriedCount,
+    cachedNonces,
+  };
+}
+
+/**
+ * 清空 nonce 缓存
+ */
+export function clearNonceCache(): void {
+  nonceCaches.clear();
+}
@@ -0,0 +1,137 @@
+// 企业微信消息内容的字节上限（UTF-8）
+export const TEXT_MAX_BYTES = 2048;
+export const MARKDOWN_MAX_BYTES = 4096;
+
+// 为代码块闭合标记预留的字节数
+const FENCE_CLOSE_RESERVE = 16;
+// 为 "(12/34)" 分段标记预留的字节数
+const MARKER_RESERVE = 12;
+// 优先边界距离片段开头的最小比例，过早的边界会导致分段过碎
+const MIN_BOUNDARY_RATIO = 0.3;
+
+// 代码块起止行：``` 或 ~~~，允许最多 3 个空格缩进
+const FENCE_LINE = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+
+/**
+ * 计算 UTF-8 字节长度
+ */
+export function byteLength(text: string): number {
+  return Buffer.byteLength(text, "utf8");
+}
+
+/**
+ * 在不超过字节预算的前提下，返回可截取的最大字符下标（不拆分代理对）
+ */
+function maxIndexWithinBytes(text: string, budget: number): number {
+  let bytes = 0;
+  let index = 0;
+  for (const ch of text) {
+    const size = byteLength(ch);
+    if (bytes + size > budget) break;
+    bytes += size;
+    index += ch.length;
+  }
+  return index;
+}
+
+/**
+ * 选择分段位置：依次尝试段落、换行、句末标点、空白，最后按字节硬切
+ */
+function findSplitPoint(text: string, budget: number): number {
+  const maxIndex = Math.max(1, maxIndexWithinBytes(text, budget));
+  const window = text.slice(0, maxIndex);
+  const minIndex = Math.floor(maxIndex * MIN_BOUNDARY_RATIO);
+
+  const paragraph = window.lastIndexOf("\n\n");
+  if (paragraph >= minIndex && paragraph > 0) return paragraph + 2;
+
+  const line = window.lastIndexOf("\n");
+  if (line >= minIndex && line > 0) return line + 1;
+
+  let sentence = -1;
+  const sentenceEnd = /[。！？；!?;]|\.(?=\s)/g;
+  let match;
+  while ((match = sentenceEnd.exec(window)) !== null) {
+    sentence = match.index + 1;
+  }
+  if (sentence >= minIndex && sentence > 0) return sentence;
+
+  const space = window.search(/\s\S*$/);
+  if (space >= minIndex && space > 0) return space + 1;
+
+  return maxIndex;
+}
+
+/**
+ * 扫描片段中的代码块起止，返回片段结束时仍未闭合的代码块起始行
+ */
+function scanOpenFence(text: string, openFence: string | null): string | null {
+  let current = openFence;
+  for (const line of text.split("\n")) {
+    const match = FENCE_LINE.exec(line);
+    if (!match) continue;
+    if (current === null) {
+      current = line.trimStart();
+    } else {
+      const openMarker = FENCE_LINE.exec(current)![1];
+      const marker = match[1];
+      if (marker[0] === openMarker[0] && marker.length >= openMarker.length && !match[2].trim()) {
+        current = null;
+      }
+    }
+  }
+  return current;
+}
+
+/**
+ * 按 UTF-8 字节上限拆分文本
+ * 在段落、句子等自然边界处断开；代码块跨段时在段尾闭合并在下一段开头重新打开
+ */
+export function splitTextByBytes(text: string, maxBytes: number): string[] {
+  if (byteLength(text) <= maxBytes) {
+    return [text];
+  }
+
+  const chunks: string[] = [];
+  let remaining = text;
+  let openFence: string | null = null;
+
+  while (remaining) {
+    const prefix = openFence ? `${openFence}\n` : "";
+    if (byteLength(prefix + remaining) <= maxBytes) {
+      chunks.push(prefix + remaining);
+      break;
+    }
+
+    const budget = Math.max(1, maxBytes - byteLength(prefix) - FENCE_CLOSE_RESERVE);
+    const cut = findSplitPoint(remaining, budget);
+    const piece = remaining.slice(0, cut).replace(/\s+$/, "");
+    const fenceAtEnd = scanOpenFence(piece, openFence);
+
+    let chunk = prefix + piece;
+    if (fenceAtEnd) {
+      chunk += `\n${FENCE_LINE.exec(fenceAtEnd)![1]}`;
+    }
+    if (chunk.trim()) {
+      chunks.push(chunk);
+    }
+
+    remaining = remaining.slice(cut).replace(/^\n+/, "");
+    openFence = fenceAtEnd;
+  }
+
+  return chunks;
+}
+
+/**
+ * 拆分长回复，可选在每段末尾添加 "(1/3)" 分段标记
+ */
+export function chunkReply(text: string, maxBytes: number, withMarkers = false): string[] {
+  const chunks = splitTextByBytes(text, maxBytes);
+  if (!withMarkers || chunks.length <= 1) {
+    return chunks;
+  }
+
+  const marked = splitTextByBytes(text, maxBytes - MARKER_RESERVE);
+  return marked.map((chunk, index) => `${chunk}\n(${index + 1}/${marked.length})`);
+}
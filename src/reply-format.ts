@@ -0,0 +1,117 @@
+import * as WeComAPI from "./wecom-api.js";
+import type { WeComAccountConfig } from "./wecom-api.js";
+import { byteLength, chunkReply, MARKDOWN_MAX_BYTES, TEXT_MAX_BYTES } from "./reply-chunker.js";
+import * as path from "node:path";
+import * as os from "node:os";
+
+// 实际发送使用的文本格式
+export type ReplyFormat = "text" | "markdown";
+
+// 判断是否包含 Markdown 格式的特征
+const MARKDOWN_PATTERNS: RegExp[] = [
+  /^#{1,6}\s+\S/m, // 标题
+  /\*\*[^*\n]+\*\*/, // 加粗
+  /^```/m, // 代码块
+  /`[^`\n]+`/, // 行内代码
+  /\[[^\]\n]+\]\([^)\s]+\)/, // 链接
+  /^>\s?\S/m, // 引用
+];
+
+/**
+ * 检查文本是否包含 Markdown 格式
+ */
+export function hasMarkdownFormatting(text: string): boolean {
+  return MARKDOWN_PATTERNS.some((pattern) => pattern.test(text));
+}
+
+/**
+ * 根据账户配置与文本内容选择发送格式
+ */
+export function resolveReplyFormat(config: WeComAccountConfig, text: string): ReplyFormat {
+  switch (config.replyFormat) {
+    case "text":
+      return "text";
+    case "markdown":
+      return "markdown";
+    default:
+      return hasMarkdownFormatting(text) ? "markdown" : "text";
+  }
+}
+
+/**
+ * 回复是否超过转为文件发送的阈值
+ */
+function exceedsFileThreshold(config: WeComAccountConfig, text: string): boolean {
+  const threshold = config.longReplyFileThresholdBytes ?? 0;
+  return threshold > 0 && byteLength(text) > threshold;
+}
+
+/**
+ * 回复能否作为单条纯文本消息发送（用于判断是否可走被动回复）
+ */
+export function fitsSingleTextMessage(config: WeComAccountConfig, text: string): boolean {
+  return byteLength(text) <= TEXT_MAX_BYTES && !exceedsFileThreshold(config, text);
+}
+
+/**
+ * 将长回复保存为 .md 文件并以文件消息发送
+ */
+async function sendTextAsFile(
+  config: WeComAccountConfig,
+  to: string,
+  text: string
+): Promise<WeComAPI.WeComSendResult> {
+  const fs = await import("node:fs");
+  const saveDir = path.join(os.tmpdir(), "wecom-replies");
+  if (!fs.existsSync(saveDir)) {
+    fs.mkdirSync(saveDir, { recursive: true });
+  }
+
+  const filePath = path.join(saveDir, `reply-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.md`);
+  fs.writeFileSync(filePath, text, "utf8");
+  try {
+    const mediaId = await WeComAPI.uploadMedia(config, filePath, "file");
+    return await WeComAPI.sendWeComFile(config, to, mediaId);
+  } finally {
+    fs.rmSync(filePath, { force: true });
+  }
+}
+
+// 文本回复的发送结果
+export interface FormattedSendResult {
+  format: ReplyFormat;
+  // 拆分后的消息条数（以文件发送时为 1）
+  parts: number;
+  asFile: boolean;
+  // 各条消息的发送结果
+  results: WeComAPI.WeComSendResult[];
+}
+
+/**
+ * 按选定格式发送文本回复
+ * 超过字节上限时按自然边界拆分为多条；超过文件阈值时整体作为 .md 文件发送
+ */
+export async function sendFormattedText(
+  config: WeComAccountConfig,
+  to: string,
+  text: string
+): Promise<FormattedSendResult> {
+  const format = resolveReplyFormat(config, text);
+
+  if (exceedsFileThreshold(config, text)) {
+    const result = await sendTextAsFile(config, to, text);
+    return { format, parts: 1, asFile: true, results: [result] };
+  }
+
+  const maxBytes = format === "markdown" ? MARKDOWN_MAX_BYTES : TEXT_MAX_BYTES;
+  const chunks = chunkReply(text, maxBytes, config.chunkMarkers ?? false);
+  const results: WeComAPI.WeComSendResult[] = [];
+  for (const chunk of chunks) {
+    results.push(
+      format === "markdown"
+        ? await WeComAPI.sendWeComMarkdown(config, to, chunk)
+        : await WeComAPI.sendWeComMessage(config, to, chunk)
+    );
+  }
+  return { format, parts: chunks.length, asFile: false, results };
+}
@@ -1,4 +1,6 @@
 import type { PluginRuntime } from "openclaw/plugin-sdk";
+import * as path from "node:path";
+import * as os from "node:os";
 
 // 运行时存储
 let pluginRuntime: PluginRuntime | null = null;
@@ -38,6 +40,13 @@ export function getWeComConfig(): any {
   return openclawConfig;
 }
 
+/**
+ * 更新 OpenClaw 全局配置（配置重载后调用）
+ */
+export function setWeComConfig(config: any): void {
+  openclawConfig = config;
+}
+
 /**
  * 获取插件专属配置 (plugins.entries.wecom.config)
  */
@@ -51,3 +60,11 @@ export function getWeComPluginConfig(): any {
 export function getWeComLogger(): any {
   return pluginLogger;
 }
+
+/**
+ * 获取插件状态目录（默认 ~/.openclaw/wecom，OPENCLAW_STATE_DIR 可修改根目录）
+ */
+export function resolveWeComStateDir(): string {
+  const root = process.env.OPENCLAW_STATE_DIR || path.join(os.homedir(), ".openclaw");
+  return path.join(root, "wecom");
+}
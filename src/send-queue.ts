@@ -0,0 +1,336 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { WeComAccountConfig } from "./wecom-api.js";
+import { getWeComLogger } from "./runtime.js";
+
+// 发送队列配置
+export type SendQueueOptions = NonNullable<WeComAccountConfig["sendQueue"]>;
+
+// 默认配额（参考企业微信应用消息频率限制）
+const DEFAULT_OPTIONS: Required<SendQueueOptions> = {
+  perUserPerMinute: 30,
+  perUserPerHour: 1000,
+  perAppPerMinute: 1000,
+  maxRetries: 5,
+  maxQueueSize: 1000,
+};
+
+// 可重试的错误码：-1 系统繁忙、45009 接口调用超过限制、45033 接口并发调用超过限制
+const RETRYABLE_ERRCODES = new Set([-1, 45009, 45033]);
+// 重试退避：基础延迟与上限（毫秒）
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// 队列中的发送任务
+interface SendJob {
+  run: () => Promise<unknown>;
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+  attempts: number;
+  // 重试退避期间不早于该时间执行
+  notBefore: number;
+  // 所属回复的中止信号（/stop 后尚未发送的消息直接丢弃）
+  signal?: AbortSignal;
+}
+
+// 单个账户的队列状态
+interface AccountQueue {
+  options: Required<SendQueueOptions>;
+  // 接收者 -> 按顺序等待发送的任务（队首任务完成后才发送下一条，保证顺序）
+  lanes: Map<string, SendJob[]>;
+  // 正在发送的接收者
+  inFlight: Set<string>;
+  // 发送时间记录（滑动窗口）
+  appSends: number[];
+  recipientSends: Map<string, number[]>;
+  timer: ReturnType<typeof setTimeout> | null;
+  stats: { sent: number; retried: number; dropped: number };
+}
+
+const accountQueues = new Map<string, AccountQueue>();
+
+/**
+ * 发送队列已满或重试耗尽时抛出的错误
+ */
+export class SendDroppedError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = "SendDroppedError";
+  }
+}
+
+/**
+ * 所属回复已被中止时抛出的错误
+ */
+export class SendAbortedError extends Error {
+  constructor() {
+    super("回复已停止，消息未发送");
+    this.name = "SendAbortedError";
+  }
+}
+
+// 当前回复的中止信号，在 runWithAbortSignal 内入队的发送任务会关联该信号
+const abortContext = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * 在中止信号的上下文中执行；其中发起的发送在信号中止后不会再发往企业微信
+ */
+export function runWithAbortSignal<T>(signal: AbortSignal, fn: () => T): T {
+  return abortContext.run(signal, fn);
+}
+
+/**
+ * 获取（或创建）账户队列，并同步最新配置
+ */
+function getAccountQueue(config: WeComAccountConfig): AccountQueue {
+  let queue = accountQueues.get(config.accountId);
+  if (!queue) {
+    queue = {
+      options: { ...DEFAULT_OPTIONS },
+      lanes: new Map(),
+      inFlight: new Set(),
+      appSends: [],
+      recipientSends: new Map(),
+      timer: null,
+      stats: { sent: 0, retried: 0, dropped: 0 },
+    };
+    accountQueues.set(config.accountId, queue);
+  }
+  queue.options = { ...DEFAULT_OPTIONS, ...config.sendQueue };
+  return queue;
+}
+
+/**
+ * 是否为可重试错误（频率限制错误码或网络错误）
+ */
+export function isRetryableError(error: unknown): boolean {
+  const errcode = (error as { errcode?: unknown })?.errcode;
+  if (typeof errcode === "number") {
+    return RETRYABLE_ERRCODES.has(errcode);
+  }
+  // fetch 的网络错误为 TypeError（如 "fetch failed"）
+  return error instanceof TypeError;
+}
+
+/**
+ * 指数退避延迟（在上限的一半到上限之间随机抖动）
+ */
+function backoffDelay(attempts: number): number {
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempts);
+  return Math.floor(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/**
+ * 清理滑动窗口中的过期记录
+ */
+function pruneWindow(sends: number[], now: number, windowMs: number): void {
+  while (sends.length > 0 && sends[0] <= now - windowMs) {
+    sends.shift();
+  }
+}
+
+/**
+ * 计算接收者下一次可以发送的时间（受各项配额限制）
+ */
+function nextAllowedAt(queue: AccountQueue, recipient: string, now: number): number {
+  const { perUserPerMinute, perUserPerHour, perAppPerMinute } = queue.options;
+  let allowedAt = now;
+
+  pruneWindow(queue.appSends, now, MINUTE_MS);
+  if (queue.appSends.length >= perAppPerMinute) {
+    allowedAt = Math.max(allowedAt, queue.appSends[queue.appSends.length - perAppPerMinute] + MINUTE_MS);
+  }
+
+  const sends = queue.recipientSends.get(recipient);
+  if (sends) {
+    pruneWindow(sends, now, HOUR_MS);
+    const lastMinute = sends.filter((time) => time > now - MINUTE_MS);
+    if (lastMinute.length >= perUserPerMinute) {
+      allowedAt = Math.max(allowedAt, lastMinute[lastMinute.length - perUserPerMinute] + MINUTE_MS);
+    }
+    if (sends.length >= perUserPerHour) {
+      allowedAt = Math.max(allowedAt, sends[sends.length - perUserPerHour] + HOUR_MS);
+    }
+    if (sends.length === 0) {
+      queue.recipientSends.delete(recipient);
+    }
+  }
+
+  return allowedAt;
+}
+
+/**
+ * 记录一次发送
+ */
+function recordSend(queue: AccountQueue, recipient: string, now: number): void {
+  queue.appSends.push(now);
+  let sends = queue.recipientSends.get(recipient);
+  if (!sends) {
+    sends = [];
+    queue.recipientSends.set(recipient, sends);
+  }
+  sends.push(now);
+}
+
+/**
+ * 执行接收者队首的任务，完成后继续调度
+ */
+async function runJob(queue: AccountQueue, recipient: string, job: SendJob): Promise<void> {
+  const lane = queue.lanes.get(recipient)!;
+
+  if (job.signal?.aborted) {
+    lane.shift();
+    job.reject(new SendAbortedError());
+    if (lane.length === 0) {
+      queue.lanes.delete(recipient);
+    }
+    pump(queue);
+    return;
+  }
+
+  queue.inFlight.add(recipient);
+  recordSend(queue, recipient, Date.now());
+
+  try {
+    const result = await job.run();
+    lane.shift();
+    queue.stats.sent++;
+    job.resolve(result);
+  } catch (error) {
+    if (isRetryableError(error) && job.attempts < queue.options.maxRetries) {
+      // 保留在队首重试，后续消息继续等待，保证顺序
+      const delay = backoffDelay(job.attempts);
+      job.attempts++;
+      job.notBefore = Date.now() + delay;
+      queue.stats.retried++;
+      getWeComLogger()?.warn("发送受限或网络错误，稍后重试", {
+        recipient,
+        attempt: job.attempts,
+        delayMs: delay,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } else {
+      lane.shift();
+      if (isRetryableError(error)) {
+        queue.stats.dropped++;
+        job.reject(new SendDroppedError(`发送失败，已重试 ${job.attempts} 次`, error));
+      } else {
+        job.reject(error);
+      }
+    }
+  } finally {
+    queue.inFlight.delete(recipient);
+    if (lane.length === 0) {
+      queue.lanes.delete(recipient);
+    }
+    pump(queue);
+  }
+}
+
+/**
+ * 调度：启动所有可以发送的接收者队首任务，其余按最早可发送时间定时唤醒
+ */
+function pump(queue: AccountQueue): void {
+  if (queue.timer) {
+    clearTimeout(queue.timer);
+    queue.timer = null;
+  }
+
+  const now = Date.now();
+  let wakeAt = Infinity;
+
+  for (const [recipient, lane] of queue.lanes) {
+    if (queue.inFlight.has(recipient) || lane.length === 0) continue;
+    const job = lane[0];
+    const readyAt = Math.max(job.notBefore, nextAllowedAt(queue, recipient, now));
+    if (readyAt <= now) {
+      void runJob(queue, recipient, job);
+    } else {
+      wakeAt = Math.min(wakeAt, readyAt);
+    }
+  }
+
+  if (wakeAt !== Infinity) {
+    queue.timer = setTimeout(() => pump(queue), wakeAt - now);
+  }
+}
+
+/**
+ * 将发送任务加入账户队列
+ * 同一接收者的消息按入队顺序逐条发送；受配额限制时等待，频率限制或网络错误时退避重试
+ */
+export function enqueueSend<T>(
+  config: WeComAccountConfig,
+  recipient: string,
+  run: () => Promise<T>
+): Promise<T> {
+  const queue = getAccountQueue(config);
+
+  let queued = 0;
+  for (const lane of queue.lanes.values()) {
+    queued += lane.length;
+  }
+  if (queued >= queue.options.maxQueueSize) {
+    queue.stats.dropped++;
+    return Promise.reject(new SendDroppedError(`发送队列已满（${queued} 条），消息已丢弃`));
+  }
+
+  const signal = abortContext.getStore();
+  if (signal?.aborted) {
+    return Promise.reject(new SendAbortedError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const job: SendJob = { run, resolve, reject, attempts: 0, notBefore: 0, signal };
+    const lane = queue.lanes.get(recipient);
+    if (lane) {
+      lane.push(job);
+    } else {
+      queue.lanes.set(recipient, [job]);
+    }
+
+    // 中止时移除尚未开始发送的任务
+    signal?.addEventListener(
+      "abort",
+      () => {
+        const current = queue.lanes.get(recipient);
+        const index = current?.indexOf(job) ?? -1;
+        if (!current || index < 0 || (index === 0 && queue.inFlight.has(recipient))) return;
+        current.splice(index, 1);
+        if (current.length === 0) {
+          queue.lanes.delete(recipient);
+        }
+        reject(new SendAbortedError());
+        pump(queue);
+      },
+      { once: true }
+    );
+
+    pump(queue);
+  });
+}
+
+/**
+ * 获取发送队列统计（用于诊断）
+ */
+export function getSendQueueStats(): Record<
+  string,
+  { queued: number; inFlight: number; recipients: number; sent: number; retried: number; dropped: number }
+> {
+  const stats: Record<string, any> = {};
+  for (const [accountId, queue] of accountQueues) {
+    let queued = 0;
+    for (const lane of queue.lanes.values()) {
+      queued += lane.length;
+    }
+    stats[accountId] = {
+      queued,
+      inFlight: queue.inFlight.size,
+      recipients: queue.lanes.size,
+      ...queue.stats,
+    };
+  }
+  return stats;
+}
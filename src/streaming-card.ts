@@ -0,0 +1,183 @@
+import * as WeComAPI from "./wecom-api.js";
+import type { WeComAccountConfig, TemplateCard } from "./wecom-api.js";
+import { sendFormattedText } from "./reply-format.js";
+import { getWeComLogger } from "./runtime.js";
+
+// 卡片预览区最多展示的字符数（sub_title_text 上限为 112 字）
+const CARD_PREVIEW_MAX_CHARS = 100;
+
+/**
+ * 流式卡片回复
+ * 开始生成时立即发送一张带"停止生成"按钮的模板卡片，回复分块到达时用 response_code 原地更新预览，
+ * 生成结束后把完整回复作为消息发送，并把卡片更新为完成状态。
+ * response_code 只能使用一次：发送卡片、更新卡片（若接口返回新的）与用户点击卡片时各得到一个。
+ * 没有可用的 response_code 时预览停留在最近一次更新，卡片在用户下一次点击时更新为最终状态
+ */
+export interface StreamingCard {
+  // 发送初始卡片，失败时返回 false（调用方按普通模式处理）
+  start: () => Promise<boolean>;
+  // 推送一段回复文本；返回 true 表示已由卡片接管，false 表示调用方应直接发送
+  push: (text: string) => Promise<boolean>;
+  // 生成结束：发送完整回复并把卡片更新为完成状态
+  finish: () => Promise<void>;
+  // 生成被停止：丢弃暂存内容并把卡片更新为已停止
+  cancel: () => Promise<void>;
+}
+
+/**
+ * 截取预览文本（保留末尾最新内容）
+ */
+function previewText(text: string): string {
+  const chars = Array.from(text.trim());
+  if (chars.length <= CARD_PREVIEW_MAX_CHARS) {
+    return chars.join("");
+  }
+  return "…" + chars.slice(-(CARD_PREVIEW_MAX_CHARS - 1)).join("");
+}
+
+/**
+ * 构建进度卡片
+ */
+function buildProgressCard(taskId: string, text: string): TemplateCard {
+  return {
+    card_type: "button_interaction",
+    main_title: {
+      title: "正在生成回复…",
+      desc: text ? `已生成 ${Array.from(text).length} 字，完成后发送完整回复` : "请稍候",
+    },
+    ...(text ? { sub_title_text: previewText(text) } : {}),
+    task_id: taskId,
+    button_list: [{ text: "停止生成", key: "/stop", style: 2 }],
+  };
+}
+
+// response_code 有效期（72 小时），超过后不再等待点击更新卡片
+const RESPONSE_CODE_TTL_MS = 72 * 60 * 60 * 1000;
+
+// 尚未更新为最终状态的流式卡片：task_id -> 接收新 response_code 的回调
+const activeCards = new Map<string, (responseCode: string) => void>();
+
+/**
+ * 用卡片交互回调中的 ResponseCode 刷新流式卡片（如用户点击"停止生成"）
+ * 返回 task_id 是否属于流式卡片
+ */
+export function refreshStreamingCard(taskId: string, responseCode: string): boolean {
+  const refresh = activeCards.get(taskId);
+  if (!refresh || !responseCode) return false;
+  refresh(responseCode);
+  return true;
+}
+
+export function createStreamingCard(config: WeComAccountConfig, userId: string): StreamingCard {
+  const logger = getWeComLogger();
+  const taskId = `stream_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+  // 当前可用的 response_code（使用后失效）
+  let responseCode: string | undefined;
+  // 已由卡片接管、尚未作为消息发送的回复
+  const held: string[] = [];
+  let active = false;
+  // 等待更新的最终状态（没有可用的 response_code 时，在下一次点击时更新）
+  let pendingFinal: string | undefined;
+  let expiryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * 把暂存内容作为普通消息发送
+   */
+  const flush = async (): Promise<void> => {
+    if (held.length === 0) return;
+    const text = held.join("\n\n");
+    held.length = 0;
+    await sendFormattedText(config, userId, text);
+  };
+
+  /**
+   * 使用当前 response_code 更新卡片，返回是否成功
+   */
+  const update = async (
+    next: { card: TemplateCard } | { replaceName: string }
+  ): Promise<boolean> => {
+    if (!responseCode) return false;
+    const code = responseCode;
+    responseCode = undefined;
+    try {
+      const result = await WeComAPI.updateWeComTemplateCard(config, [userId], code, next);
+      responseCode = result.response_code;
+      return true;
+    } catch (error) {
+      logger?.warn("流式卡片更新失败", {
+        taskId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  };
+
+  /**
+   * 卡片不再需要更新：注销并清理定时器
+   */
+  const release = () => {
+    activeCards.delete(taskId);
+    if (expiryTimer) clearTimeout(expiryTimer);
+    pendingFinal = undefined;
+  };
+
+  /**
+   * 把卡片更新为最终状态；没有可用的 response_code 时等待用户下一次点击
+   */
+  const settle = async (replaceName: string): Promise<void> => {
+    pendingFinal = replaceName;
+    if (await update({ replaceName })) {
+      release();
+      return;
+    }
+    logger?.info("流式卡片暂时无法更新为最终状态，等待下一次点击", { taskId, replaceName });
+    expiryTimer = setTimeout(release, RESPONSE_CODE_TTL_MS);
+    expiryTimer.unref?.();
+  };
+
+  return {
+    start: async () => {
+      try {
+        const result = await WeComAPI.sendWeComTemplateCard(config, userId, buildProgressCard(taskId, ""));
+        responseCode = result.response_code;
+        active = Boolean(responseCode);
+      } catch (error) {
+        logger?.warn("发送流式卡片失败，使用普通回复", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        active = false;
+      }
+      if (active) {
+        activeCards.set(taskId, (code) => {
+          responseCode = code;
+          if (pendingFinal) {
+            void settle(pendingFinal);
+          }
+        });
+      }
+      return active;
+    },
+
+    push: async (text: string) => {
+      if (!active) return false;
+
+      // 暂存到生成结束后整体发送；有可用的 response_code 时原地更新预览
+      held.push(text);
+      await update({ card: buildProgressCard(taskId, held.join("\n\n")) });
+      return true;
+    },
+
+    finish: async () => {
+      active = false;
+      await flush();
+      await settle("已完成");
+    },
+
+    cancel: async () => {
+      active = false;
+      held.length = 0;
+      await settle("已停止");
+    },
+  };
+}
@@ -0,0 +1,190 @@
+import crypto from "crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { WeComAccountConfig } from "./wecom-api.js";
+import { getWeComLogger, resolveWeComStateDir } from "./runtime.js";
+
+// access_token 无效或过期的错误码：40014 不合法、42001 已过期、42009 已失效
+export const INVALID_TOKEN_ERRCODES = new Set([40014, 42001, 42009]);
+
+// 提前刷新的时间（秒），避免临界时刻使用即将过期的 token
+const TOKEN_EXPIRY_MARGIN_SEC = 120;
+// 持久化文件名（位于插件状态目录）
+const TOKEN_FILE_NAME = "tokens.json";
+
+// Access Token 缓存
+interface TokenCache {
+  token: string;
+  expiry: number;
+}
+
+// 缓存：corpId:agentId:secret 哈希 -> token
+const tokenCache: Map<string, TokenCache> = new Map();
+// 正在进行的刷新请求，同一账户并发获取时共用
+const pendingRefreshes = new Map<string, Promise<string>>();
+// 需要持久化的缓存键
+const persistedKeys = new Set<string>();
+let persistedLoaded = false;
+
+let refreshCount = 0;
+let invalidationCount = 0;
+
+/**
+ * 生成缓存键；包含 secret 的哈希，轮换 corpSecret 后立即使用新 token
+ */
+function tokenCacheKey(config: WeComAccountConfig): string {
+  const secretHash = crypto.createHash("sha256").update(config.corpSecret).digest("hex").slice(0, 16);
+  return `${config.corpId}:${config.agentId}:${secretHash}`;
+}
+
+/**
+ * 持久化文件路径
+ */
+function tokenFilePath(): string {
+  return path.join(resolveWeComStateDir(), TOKEN_FILE_NAME);
+}
+
+/**
+ * 首次使用时加载持久化的 token（仅加载未过期的记录）
+ */
+function loadPersistedTokens(): void {
+  if (persistedLoaded) return;
+  persistedLoaded = true;
+
+  try {
+    const data = JSON.parse(fs.readFileSync(tokenFilePath(), "utf8")) as Record<string, TokenCache>;
+    const now = Date.now();
+    for (const [key, entry] of Object.entries(data)) {
+      if (entry?.token && entry.expiry > now && !tokenCache.has(key)) {
+        tokenCache.set(key, { token: entry.token, expiry: entry.expiry });
+        persistedKeys.add(key);
+      }
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      getWeComLogger()?.warn("读取 access_token 持久化文件失败", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+// 临时文件计数器
+let tempFileCounter = 0;
+
+/**
+ * 写入持久化文件（先写临时文件再重命名，权限 600）
+ */
+async function savePersistedTokens(): Promise<void> {
+  const data: Record<string, TokenCache> = {};
+  for (const key of persistedKeys) {
+    const entry = tokenCache.get(key);
+    if (entry) data[key] = entry;
+  }
+
+  const filePath = tokenFilePath();
+  // 多个账户可能同时刷新，每次写入使用独立的临时文件
+  const tempPath = `${filePath}.${process.pid}.${++tempFileCounter}.${crypto.randomBytes(4).toString("hex")}.tmp`;
+  try {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(tempPath, JSON.stringify(data), { mode: 0o600 });
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true }).catch(() => undefined);
+    getWeComLogger()?.warn("写入 access_token 持久化文件失败", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * 调用 gettoken 获取新 token
+ */
+async function refreshAccessToken(config: WeComAccountConfig, cacheKey: string): Promise<string> {
+  const query = new URLSearchParams({ corpid: config.corpId, corpsecret: config.corpSecret });
+  const response = await fetch(`https://qyapi.weixin.qq.com/cgi-bin/gettoken?${query}`);
+  const data = (await response.json()) as {
+    access_token: string;
+    expires_in: number;
+    errcode?: number;
+    errmsg?: string;
+  };
+
+  if (data.errcode && data.errcode !== 0) {
+    throw new Error(`获取 access_token 失败: ${data.errcode} ${data.errmsg}`);
+  }
+
+  refreshCount++;
+  tokenCache.set(cacheKey, {
+    token: data.access_token,
+    expiry: Date.now() + (data.expires_in - TOKEN_EXPIRY_MARGIN_SEC) * 1000,
+  });
+
+  if (config.persistAccessToken) {
+    persistedKeys.add(cacheKey);
+    await savePersistedTokens();
+  }
+
+  return data.access_token;
+}
+
+/**
+ * 获取 Access Token
+ * 缓存过期后同一账户的并发请求只触发一次 gettoken
+ */
+export async function getAccessToken(config: WeComAccountConfig): Promise<string> {
+  if (config.persistAccessToken) {
+    loadPersistedTokens();
+  }
+
+  const cacheKey = tokenCacheKey(config);
+  const cached = tokenCache.get(cacheKey);
+  if (cached && Date.now() < cached.expiry) {
+    return cached.token;
+  }
+
+  let pending = pendingRefreshes.get(cacheKey);
+  if (!pending) {
+    pending = refreshAccessToken(config, cacheKey).finally(() => pendingRefreshes.delete(cacheKey));
+    pendingRefreshes.set(cacheKey, pending);
+  }
+  return pending;
+}
+
+/**
+ * 使 token 失效（接口返回无效 token 错误码时调用）
+ * 传入 token 时仅在缓存仍是该 token 时清除，避免清掉其他请求刚刷新的 token
+ */
+export function invalidateAccessToken(config: WeComAccountConfig, token?: string): void {
+  const cacheKey = tokenCacheKey(config);
+  const cached = tokenCache.get(cacheKey);
+  if (!cached || (token && cached.token !== token)) return;
+
+  tokenCache.delete(cacheKey);
+  invalidationCount++;
+  getWeComLogger()?.warn("access_token 已失效，重新获取", { accountId: config.accountId });
+
+  if (persistedKeys.delete(cacheKey)) {
+    void savePersistedTokens();
+  }
+}
+
+/**
+ * 清除 Token 缓存（持久化文件保留，下次启动仍可使用）
+ */
+export function clearTokenCache(): void {
+  tokenCache.clear();
+  persistedKeys.clear();
+  persistedLoaded = false;
+}
+
+/**
+ * 获取 Token 统计（用于诊断）
+ */
+export function getAccessTokenStats(): { cached: number; refreshes: number; invalidations: number } {
+  return {
+    cached: tokenCache.size,
+    refreshes: refreshCount,
+    invalidations: invalidationCount,
+  };
+}
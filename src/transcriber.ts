@@ -0,0 +1,88 @@
+import { execFile } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { promisify } from "node:util";
+import type { WeComAccountConfig } from "./wecom-api.js";
+
+const execFileAsync = promisify(execFile);
+
+// 语音转文字配置
+export type SpeechToTextOptions = NonNullable<WeComAccountConfig["speechToText"]>;
+
+// 默认超时（毫秒）
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+// 命令输出上限
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+
+/**
+ * 语音转文字接口
+ */
+export interface Transcriber {
+  // 转写音频文件，返回识别文本（无法识别时为空字符串）；signal 中止时终止命令或请求
+  transcribe: (filePath: string, mimeType: string, signal?: AbortSignal) => Promise<string>;
+}
+
+/**
+ * 本地命令转写（如 whisper.cpp）
+ * 参数中的 {input} 替换为音频文件路径（未包含时追加到末尾），命令的标准输出即为识别结果
+ */
+export function createCommandTranscriber(options: NonNullable<SpeechToTextOptions["command"]>): Transcriber {
+  return {
+    transcribe: async (filePath, _mimeType, signal) => {
+      const args = options.args ?? [];
+      const finalArgs = args.some((arg) => arg.includes("{input}"))
+        ? args.map((arg) => arg.replaceAll("{input}", filePath))
+        : [...args, filePath];
+      const { stdout } = await execFileAsync(options.path, finalArgs, {
+        timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+        maxBuffer: MAX_OUTPUT_BYTES,
+        signal,
+      });
+      return stdout.trim();
+    },
+  };
+}
+
+/**
+ * HTTP 转写（OpenAI 兼容的 /audio/transcriptions 接口）
+ * 以 multipart 上传音频，响应为 JSON（text 字段）或纯文本
+ */
+export function createHttpTranscriber(options: NonNullable<SpeechToTextOptions["http"]>): Transcriber {
+  return {
+    transcribe: async (filePath, mimeType, signal) => {
+      const form = new FormData();
+      const data = await fs.promises.readFile(filePath);
+      form.append("file", new Blob([data], { type: mimeType }), path.basename(filePath));
+      if (options.model) form.append("model", options.model);
+      if (options.language) form.append("language", options.language);
+
+      const response = await fetch(options.url, {
+        method: "POST",
+        headers: options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {},
+        body: form,
+        signal: signal
+          ? AbortSignal.any([signal, AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS)])
+          : AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`语音转写接口返回 ${response.status}: ${(await response.text()).slice(0, 200)}`);
+      }
+
+      const contentType = response.headers.get("content-type") || "";
+      if (contentType.includes("application/json")) {
+        const result = (await response.json()) as { text?: string };
+        return (result.text ?? "").trim();
+      }
+      return (await response.text()).trim();
+    },
+  };
+}
+
+/**
+ * 按配置创建转写器，未配置时返回 null（command 优先于 http）
+ */
+export function createTranscriber(options: SpeechToTextOptions | undefined): Transcriber | null {
+  if (options?.command?.path) return createCommandTranscriber(options.command);
+  if (options?.http?.url) return createHttpTranscriber(options.http);
+  return null;
+}
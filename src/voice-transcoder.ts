@@ -0,0 +1,195 @@
+import { execFile } from "node:child_process";
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { promisify } from "node:util";
+import type { WeComAccountConfig } from "./wecom-api.js";
+import { resolveWeComStateDir } from "./runtime.js";
+import { sniffMimeType } from "./mime-sniff.js";
+
+const execFileAsync = promisify(execFile);
+
+// 语音转码配置
+export type VoiceTranscodeOptions = NonNullable<WeComAccountConfig["voiceTranscode"]>;
+
+// 企业微信语音消息限制：时长不超过 60 秒、大小不超过 2MB、AMR 格式
+export const VOICE_MAX_DURATION_MS = 60 * 1000;
+export const VOICE_MAX_BYTES = 2 * 1024 * 1024;
+
+// 默认使用 ffmpeg 转为 8kHz 单声道 AMR-NB（需要 libopencore_amrnb 编码器）
+const DEFAULT_COMMAND = {
+  path: "ffmpeg",
+  args: ["-y", "-loglevel", "error", "-i", "{input}", "-ar", "8000", "-ac", "1", "-c:a", "libopencore_amrnb", "-b:a", "12.2k", "-f", "amr", "{output}"],
+};
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+// 转码缓存最多保留的文件数（按最近使用时间淘汰）
+const MAX_CACHE_FILES = 200;
+// 转码失败的缓存时间：同一段音频在该时间内不再重复调用转码命令
+const FAILURE_TTL_MS = 10 * 60 * 1000;
+// 最多记录的失败数
+const MAX_FAILURES = 200;
+
+// 最近转码失败的音频：内容哈希 -> { 错误信息, 过期时间 }
+const recentFailures = new Map<string, { message: string; expiresAt: number }>();
+
+// AMR-NB 各模式的帧长度（字节，含帧头），每帧 20 毫秒
+const AMR_FRAME_SIZES = [13, 14, 16, 18, 20, 21, 27, 32, 6, 1, 1, 1, 1, 1, 1, 1];
+const AMR_HEADER = "#!AMR\n";
+const AMR_FRAME_MS = 20;
+
+/**
+ * 音频转码接口：把任意音频转为 AMR-NB
+ */
+export interface AudioTranscoder {
+  transcode: (inputPath: string, outputPath: string) => Promise<void>;
+}
+
+/**
+ * 计算 AMR-NB 音频时长（毫秒），不是有效的 AMR 文件时返回 undefined
+ */
+export function amrDurationMs(data: Uint8Array): number | undefined {
+  if (Buffer.from(data.subarray(0, AMR_HEADER.length)).toString("latin1") !== AMR_HEADER) {
+    return undefined;
+  }
+  let offset = AMR_HEADER.length;
+  let frames = 0;
+  while (offset < data.length) {
+    offset += AMR_FRAME_SIZES[(data[offset] >> 3) & 0x0f];
+    frames++;
+  }
+  return frames * AMR_FRAME_MS;
+}
+
+/**
+ * 本地命令转码，参数中的 {input}、{output} 替换为输入与输出路径
+ */
+export function createCommandTranscoder(command: { path: string; args?: string[]; timeoutMs?: number }): AudioTranscoder {
+  return {
+    transcode: async (inputPath, outputPath) => {
+      const args = (command.args ?? []).map((arg) =>
+        arg.replaceAll("{input}", inputPath).replaceAll("{output}", outputPath)
+      );
+      await execFileAsync(command.path, args, { timeout: command.timeoutMs ?? DEFAULT_TIMEOUT_MS });
+    },
+  };
+}
+
+/**
+ * 按配置创建转码器：未配置命令时使用 ffmpeg，enabled 为 false 时返回 null
+ */
+export function createTranscoder(options: VoiceTranscodeOptions | undefined): AudioTranscoder | null {
+  if (options?.enabled === false) return null;
+  return createCommandTranscoder(options?.command ?? { ...DEFAULT_COMMAND, timeoutMs: options?.timeoutMs });
+}
+
+/**
+ * 检查 AMR 文件是否满足语音消息限制，不满足时抛出错误
+ */
+function assertVoiceLimits(data: Uint8Array): void {
+  const durationMs = amrDurationMs(data);
+  if (durationMs === undefined) {
+    throw new Error("不是有效的 AMR 文件");
+  }
+  if (durationMs > VOICE_MAX_DURATION_MS) {
+    throw new Error(`语音时长 ${Math.ceil(durationMs / 1000)} 秒，超过 60 秒限制`);
+  }
+  if (data.length > VOICE_MAX_BYTES) {
+    throw new Error(`语音大小 ${data.length} 字节，超过 2MB 限制`);
+  }
+}
+
+/**
+ * 删除最久未使用的缓存文件（命中时会更新修改时间），只保留 MAX_CACHE_FILES 个
+ */
+async function pruneCache(cacheDir: string): Promise<void> {
+  const names = (await fs.promises.readdir(cacheDir)).filter((name) => name.endsWith(".amr"));
+  if (names.length <= MAX_CACHE_FILES) return;
+  const files = await Promise.all(
+    names.map(async (name) => {
+      const filePath = path.join(cacheDir, name);
+      const stat = await fs.promises.stat(filePath).catch(() => null);
+      return { filePath, mtimeMs: stat?.mtimeMs ?? 0 };
+    })
+  );
+  files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+  for (const file of files.slice(0, files.length - MAX_CACHE_FILES)) {
+    await fs.promises.rm(file.filePath, { force: true });
+  }
+}
+
+/**
+ * 记录转码失败（超过上限时先清理过期记录，仍超过时删除最早的记录）
+ */
+function rememberFailure(hash: string, message: string): void {
+  const now = Date.now();
+  if (recentFailures.size >= MAX_FAILURES) {
+    for (const [key, failure] of recentFailures) {
+      if (failure.expiresAt <= now) recentFailures.delete(key);
+    }
+    if (recentFailures.size >= MAX_FAILURES) {
+      recentFailures.delete(recentFailures.keys().next().value!);
+    }
+  }
+  recentFailures.set(hash, { message, expiresAt: now + FAILURE_TTL_MS });
+}
+
+/**
+ * 准备可作为语音消息发送的 AMR 文件
+ * AMR 文件直接检查限制；其他格式转码为 AMR-NB 并按内容哈希缓存，转码失败或超过限制时抛出错误
+ * （失败结果缓存 10 分钟，期间同一段音频直接抛出上次的错误）
+ */
+export async function prepareVoiceFile(config: WeComAccountConfig, filePath: string): Promise<string> {
+  const data = await fs.promises.readFile(filePath);
+  if (sniffMimeType(data)?.mime === "audio/amr") {
+    assertVoiceLimits(data);
+    return filePath;
+  }
+
+  const transcoder = createTranscoder(config.voiceTranscode);
+  if (!transcoder) {
+    throw new Error("语音转码未启用");
+  }
+
+  const hash = crypto
+    .createHash("sha256")
+    .update(data)
+    .update(JSON.stringify(config.voiceTranscode?.command ?? DEFAULT_COMMAND))
+    .digest("hex")
+    .slice(0, 32);
+  const cacheDir = path.join(resolveWeComStateDir(), "voice-cache");
+  const cachedPath = path.join(cacheDir, `${hash}.amr`);
+
+  try {
+    const cached = await fs.promises.readFile(cachedPath);
+    assertVoiceLimits(cached);
+    // 更新修改时间，淘汰时按最近使用排序
+    const now = new Date();
+    await fs.promises.utimes(cachedPath, now, now).catch(() => undefined);
+    return cachedPath;
+  } catch {
+    // 没有缓存或缓存无效，重新转码
+  }
+
+  const failure = recentFailures.get(hash);
+  if (failure && failure.expiresAt > Date.now()) {
+    throw new Error(failure.message);
+  }
+  recentFailures.delete(hash);
+
+  await fs.promises.mkdir(cacheDir, { recursive: true });
+  // 同一段音频可能同时转码，临时文件名加随机后缀
+  const tempPath = path.join(cacheDir, `${hash}.${process.pid}.${crypto.randomBytes(4).toString("hex")}.tmp.amr`);
+  try {
+    await transcoder.transcode(filePath, tempPath);
+    assertVoiceLimits(await fs.promises.readFile(tempPath));
+    await fs.promises.rename(tempPath, cachedPath);
+  } catch (error) {
+    rememberFailure(hash, error instanceof Error ? error.message : String(error));
+    throw error;
+  } finally {
+    await fs.promises.rm(tempPath, { force: true });
+  }
+
+  await pruneCache(cacheDir).catch(() => undefined);
+  return cachedPath;
+}
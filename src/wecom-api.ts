@@ -1,5 +1,18 @@
 import crypto from "crypto";
 import type { IncomingMessage } from "node:http";
+import { getAccessToken, invalidateAccessToken, INVALID_TOKEN_ERRCODES } from "./token-manager.js";
+import { enqueueSend, isRetryableError, SendAbortedError } from "./send-queue.js";
+import {
+  addOutboxEntry,
+  claimOutboxEntry,
+  isOutboxEnabled,
+  listOutboxEntries,
+  markOutboxFailure,
+  removeOutboxEntry,
+  type OutboxEntry,
+} from "./outbox.js";
+import { assertUploadable, assertUploadSize, type MediaUploadType } from "./media-preflight.js";
+import { detectMimeType } from "./mime-sniff.js";
 
 // 企业微信账户配置
 export interface WeComAccountConfig {
@@ -10,57 +23,108 @@ export interface WeComAccountConfig {
   agentId: string;
   token: string;
   encodingAesKey: string;
-}
-
-// Access Token 缓存
-interface TokenCache {
-  token: string;
-  expiry: number;
-}
-
-const tokenCache: Map<string, TokenCache> = new Map();
-
-/**
- * 获取 Access Token
- */
-export async function getAccessToken(config: WeComAccountConfig): Promise<string> {
-  const cacheKey = `${config.corpId}:${config.agentId}`;
-  const cached = tokenCache.get(cacheKey);
-
-  if (cached && Date.now() < cached.expiry) {
-    return cached.token;
-  }
-
-  const url = `https://qyapi.weixin.qq.com/cgi-bin/gettoken?corpid=${config.corpId}&corpsecret=${config.corpSecret}`;
-  const response = await fetch(url);
-  const data = (await response.json()) as {
-    access_token: string;
-    expires_in: number;
-    errcode?: number;
-    errmsg?: string;
+  // 被动回复截止时间（毫秒），在此时间内就绪的回复直接写入 webhook 响应；0 或未设置表示关闭
+  passiveReplyTimeoutMs?: number;
+  // 回调时间戳允许的时钟偏差（秒），默认 300；0 表示不校验
+  timestampToleranceSec?: number;
+  // 用户与应用群聊的绑定（userid -> chatid），绑定用户的消息进入群聊会话，回复发到群里
+  chatBindings?: Record<string, string>;
+  // 文本回复格式：auto 按内容自动选择 Markdown，text 强制纯文本（微信插件不渲染 Markdown），markdown 强制 Markdown
+  replyFormat?: "auto" | "text" | "markdown";
+  // 长回复拆分为多条时是否在每条末尾添加 "(1/3)" 分段标记
+  chunkMarkers?: boolean;
+  // 回复超过该字节数时整体作为 .md 文件发送；0 或未设置表示不启用
+  longReplyFileThresholdBytes?: number;
+  // 流式卡片回复：先发送模板卡片并随生成进度原地更新，无法更新时改为追加消息
+  streamingCard?: boolean;
+  // 应用菜单；未设置时使用默认菜单，false 表示不管理菜单
+  menu?: MenuButton[] | false;
+  // 将 access_token 持久化到磁盘，重启后继续使用，节省 gettoken 调用次数
+  persistAccessToken?: boolean;
+  // 出站发送队列：按接收者与应用的频率配额排队，频率限制（45009/45033）与网络错误时退避重试
+  sendQueue?: {
+    // 每个接收者每分钟最多发送条数，默认 30（企业微信：每应用对同一成员 30 次/分钟）
+    perUserPerMinute?: number;
+    // 每个接收者每小时最多发送条数，默认 1000
+    perUserPerHour?: number;
+    // 每个应用每分钟最多发送条数，默认 1000
+    perAppPerMinute?: number;
+    // 最大重试次数，默认 5
+    maxRetries?: number;
+    // 最多积压的消息数，超出时丢弃，默认 1000
+    maxQueueSize?: number;
+  };
+  // 回调去重：store 为 memory（默认）或 file（追加写入文件，重启后仍生效）；ttlSec 默认 300；contentHash 为内容哈希去重层，默认开启
+  dedupe?: { store?: "memory" | "file"; ttlSec?: number; contentHash?: boolean };
+  // 入站消息队列：同一发送者的消息串行处理；maxPending 为每个发送者最多排队的消息数（默认 20），
+  // coalesceSec 为合并窗口（秒），窗口内连续发送的短文本消息合并为一轮处理，默认 0（不合并）
+  inboundQueue?: { maxPending?: number; coalesceSec?: number };
+  // 发件箱：发送前写入磁盘，成功后删除，重启后重放未过期的记录；enabled 默认 true，ttlSec 默认 1800
+  outbox?: { enabled?: boolean; ttlSec?: number };
+  // 默认菜单中"模型"子菜单：models 为展示的模型 id 或别名（按顺序，未设置时有别名的模型优先），limit 为最多展示数量（不超过 4）
+  modelMenu?: { models?: string[]; limit?: number };
+  // 访问控制：允许使用应用的成员 userid、部门 id（含子部门）与标签 id；未设置时不限制
+  // 也可以是 OpenClaw 通用的 userid 列表（如快速配置写入的 ["zhangsan"]），"*" 表示不限制
+  allowFrom?: string[] | { users?: string[]; departments?: number[]; tags?: number[] };
+  // 管理员 userid：只有管理员可以执行命令并审批配对申请；未设置时所有可使用应用的成员都可以执行命令
+  admins?: string[];
+  // 不在 allowFrom 中的成员：pairing（默认）发起配对申请等待管理员审批，deny 直接拒绝
+  accessPolicy?: "pairing" | "deny";
+  // 从通讯录读取发送者信息传给 Agent：name 姓名（默认 true）、department 部门路径、position 职务（默认 false）
+  senderProfile?: { name?: boolean; department?: boolean; position?: boolean };
+  // 入站媒体存储：dir 为根目录（默认 ~/.openclaw/wecom/media，按账户与用户分目录），maxBytes 为单个文件上限（默认 20MB），
+  // retentionHours 为保留时间（默认 168），maxTotalBytes 为每个账户的总大小上限（默认 1GB），超出时从最旧的文件开始清理；
+  // text 为是否在消息文本中描述附件路径、类型与大小（默认 true），exposePicUrl 为是否把图片的原始 PicUrl 传给 Agent（默认 false）
+  media?: {
+    dir?: string;
+    maxBytes?: number;
+    retentionHours?: number;
+    maxTotalBytes?: number;
+    text?: boolean;
+    exposePicUrl?: boolean;
+  };
+  // 语音转文字：recognition 为是否使用企业微信语音识别结果（默认 true），hdVoice 为是否先下载高清语音（需开通，默认 false）；
+  // 没有识别结果时使用 command（本地命令，参数中的 {input} 为音频路径，标准输出为识别结果）或 http（OpenAI 兼容接口）转写
+  speechToText?: {
+    recognition?: boolean;
+    hdVoice?: boolean;
+    command?: { path: string; args?: string[]; timeoutMs?: number };
+    http?: { url: string; apiKey?: string; model?: string; language?: string; timeoutMs?: number };
+  };
+  // 出站语音转码：非 AMR 的语音转为 AMR-NB 后作为语音消息发送（默认使用 ffmpeg），转码失败或超过 60 秒/2MB 时作为文件发送；
+  // command 为自定义转码命令（参数中的 {input}、{output} 为输入与输出路径），enabled 为 false 时不转码
+  voiceTranscode?: {
+    enabled?: boolean;
+    command?: { path: string; args?: string[]; timeoutMs?: number };
+    timeoutMs?: number;
+  };
+  // 出站图片格式转换：webp/bmp 转为 PNG 后作为图片发送（默认使用 ImageMagick），转换失败时作为文件发送（SVG 不转换）；
+  // command 为自定义转换命令（参数中的 {input}、{output} 为输入与输出路径），enabled 为 false 时不转换
+  imageConvert?: {
+    enabled?: boolean;
+    command?: { path: string; args?: string[]; timeoutMs?: number };
+    timeoutMs?: number;
   };
-
-  if (data.errcode && data.errcode !== 0) {
-    throw new Error(`获取 access_token 失败: ${data.errcode} ${data.errmsg}`);
-  }
-
-  tokenCache.set(cacheKey, {
-    token: data.access_token,
-    expiry: Date.now() + (data.expires_in - 120) * 1000,
-  });
-
-  return data.access_token;
 }
 
+export { getAccessToken, clearTokenCache } from "./token-manager.js";
+
 /**
- * 清除 Token 缓存
+ * 计算消息签名
  */
-export function clearTokenCache(): void {
-  tokenCache.clear();
+export function computeSignature(
+  token: string,
+  timestamp: string,
+  nonce: string,
+  encrypt: string
+): string {
+  const parts = [token, timestamp, nonce, encrypt].sort();
+  const str = parts.join("");
+  return crypto.createHash("sha1").update(str).digest("hex");
 }
 
 /**
- * 验证签名
+ * 验证签名（常量时间比较，避免时序侧信道）
  */
 export function validateSignature(
   token: string,
@@ -69,10 +133,12 @@ export function validateSignature(
   encrypt: string,
   signature: string
 ): boolean {
-  const parts = [token, timestamp, nonce, encrypt].sort();
-  const str = parts.join("");
-  const hash = crypto.createHash("sha1").update(str).digest("hex");
-  return signature === hash;
+  const expected = Buffer.from(computeSignature(token, timestamp, nonce, encrypt), "utf8");
+  const actual = Buffer.from(signature ?? "", "utf8");
+  if (actual.length !== expected.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(actual, expected);
 }
 
 /**
@@ -109,21 +175,693 @@ export function decryptMessage(
 }
 
 /**
- * 解析 XML 消息
+ * 加密消息（decryptMessage 的逆过程）
+ * 明文结构：16 字节随机串 + 4 字节消息长度（网络字节序）+ 消息 + CorpID，
+ * 按 32 字节块做 PKCS#7 填充后使用 AES-256-CBC 加密
  */
-export function parseXmlMessage(xml: string): Record<string, string> {
-  const result: Record<string, string> = {};
-  // 修复：使用 [\s\S]*? 来匹配包括换行的任意字符
-  const regex = /<(\w+)>(?:\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*|([^<]*))\s*<\/\1>/g;
+export function encryptMessage(
+  encodingAesKey: string,
+  corpId: string,
+  plainText: string
+): string {
+  const key = Buffer.from(encodingAesKey + "=", "base64");
+  const msg = Buffer.from(plainText, "utf8");
+  const msgLen = Buffer.alloc(4);
+  msgLen.writeUInt32BE(msg.length, 0);
+
+  const raw = Buffer.concat([crypto.randomBytes(16), msgLen, msg, Buffer.from(corpId, "utf8")]);
+  const padLen = 32 - (raw.length % 32);
+  const padded = Buffer.concat([raw, Buffer.alloc(padLen, padLen)]);
+
+  const cipher = crypto.createCipheriv("aes-256-cbc", key, key.subarray(0, 16));
+  cipher.setAutoPadding(false);
+
+  return Buffer.concat([cipher.update(padded), cipher.final()]).toString("base64");
+}
+
+/**
+ * 包裹 CDATA（处理内容中出现的 "]]>"）
+ */
+function cdata(value: string): string {
+  return `<![CDATA[${value.replace(/\]\]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+/**
+ * 构建被动回复的文本消息明文 XML
+ */
+export function buildTextReplyXml(toUser: string, fromUser: string, content: string): string {
+  return (
+    "<xml>" +
+    `<ToUserName>${cdata(toUser)}</ToUserName>` +
+    `<FromUserName>${cdata(fromUser)}</FromUserName>` +
+    `<CreateTime>${Math.floor(Date.now() / 1000)}</CreateTime>` +
+    `<MsgType>${cdata("text")}</MsgType>` +
+    `<Content>${cdata(content)}</Content>` +
+    "</xml>"
+  );
+}
+
+/**
+ * 构建加密并签名的被动回复包
+ * 返回 <xml><Encrypt/><MsgSignature/><TimeStamp/><Nonce/></xml>
+ */
+export function buildEncryptedReply(
+  config: WeComAccountConfig,
+  replyXml: string,
+  timestamp: string = String(Math.floor(Date.now() / 1000)),
+  nonce: string = crypto.randomBytes(8).toString("hex")
+): string {
+  const encrypt = encryptMessage(config.encodingAesKey, config.corpId, replyXml);
+  const signature = computeSignature(config.token, timestamp, nonce, encrypt);
+  return (
+    "<xml>" +
+    `<Encrypt>${cdata(encrypt)}</Encrypt>` +
+    `<MsgSignature>${cdata(signature)}</MsgSignature>` +
+    `<TimeStamp>${timestamp}</TimeStamp>` +
+    `<Nonce>${cdata(nonce)}</Nonce>` +
+    "</xml>"
+  );
+}
+
+// XML 元素节点
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  // 元素直接包含的文本（CDATA 原样保留，普通文本已解码实体，纯空白文本被忽略）
+  text: string;
+  children: XmlElement[];
+}
+
+// XML 转换后的值：叶子元素为字符串，含子元素时为对象，同名兄弟元素重复出现时为数组
+export type XmlValue = string | XmlObject | Array<string | XmlObject>;
+
+export interface XmlObject {
+  [name: string]: XmlValue;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * 解码 XML 实体（预定义实体与数字字符引用）
+ */
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#[xX][0-9a-fA-F]+|#\d+|[A-Za-z]+);/g, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * 查找标签结束位置（跳过属性值中的 ">"）
+ */
+function findTagEnd(xml: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start + 1; i < xml.length; i++) {
+    const ch = xml[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === ">") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 解析标签属性
+ */
+function parseXmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const regex = /([A-Za-z_][\w.:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
   let match;
+  while ((match = regex.exec(source)) !== null) {
+    attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? "");
+  }
+  return attributes;
+}
+
+/**
+ * 解析 XML 文档为元素树（无外部依赖）
+ * 支持 CDATA、注释、XML 声明、属性、自闭合标签与实体解码；
+ * 出于安全考虑不支持 DOCTYPE（避免实体扩展攻击）
+ */
+export function parseXml(xml: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let pos = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`XML 解析失败: ${reason} (位置 ${pos})`);
+  };
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf("<", pos);
+    const textEnd = lt === -1 ? xml.length : lt;
+
+    // 文本节点
+    if (textEnd > pos) {
+      const raw = xml.slice(pos, textEnd);
+      if (raw.trim()) {
+        if (stack.length === 0) fail("根元素之外存在文本");
+        stack[stack.length - 1].text += decodeXmlEntities(raw);
+      }
+      pos = textEnd;
+      continue;
+    }
+
+    if (xml.startsWith("<![CDATA[", pos)) {
+      const end = xml.indexOf("]]>", pos + 9);
+      if (end === -1) fail("CDATA 未闭合");
+      if (stack.length === 0) fail("根元素之外存在 CDATA");
+      stack[stack.length - 1].text += xml.slice(pos + 9, end);
+      pos = end + 3;
+      continue;
+    }
+
+    if (xml.startsWith("<!--", pos)) {
+      const end = xml.indexOf("-->", pos + 4);
+      if (end === -1) fail("注释未闭合");
+      pos = end + 3;
+      continue;
+    }
+
+    if (xml.startsWith("<?", pos)) {
+      const end = xml.indexOf("?>", pos + 2);
+      if (end === -1) fail("处理指令未闭合");
+      pos = end + 2;
+      continue;
+    }
+
+    if (xml.startsWith("<!", pos)) {
+      fail("不支持 DOCTYPE 声明");
+    }
+
+    const gt = findTagEnd(xml, pos);
+    if (gt === -1) fail("标签未闭合");
+    const tag = xml.slice(pos + 1, gt);
+    pos = gt + 1;
+
+    // 结束标签
+    if (tag.startsWith("/")) {
+      const name = tag.slice(1).trim();
+      const open = stack.pop();
+      if (!open || open.name !== name) fail(`结束标签 </${name}> 不匹配`);
+      continue;
+    }
+
+    // 开始标签 / 自闭合标签
+    const selfClosing = tag.endsWith("/");
+    const match = /^([A-Za-z_][\w.:-]*)([\s\S]*)$/.exec(selfClosing ? tag.slice(0, -1) : tag);
+    if (!match) fail(`无效的标签 <${tag}>`);
+    const element: XmlElement = {
+      name: match![1],
+      attributes: parseXmlAttributes(match![2]),
+      text: "",
+      children: [],
+    };
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(element);
+    } else if (root) {
+      fail("存在多个根元素");
+    } else {
+      root = element;
+    }
+
+    if (!selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  if (stack.length > 0) fail(`元素 <${stack[stack.length - 1].name}> 未闭合`);
+  if (!root) fail("缺少根元素");
+  return root!;
+}
+
+/**
+ * 将元素树转换为普通对象
+ * 使用无原型对象，<__proto__>、<constructor> 等元素名只作为普通字段，不会读到或改写原型
+ */
+export function xmlToObject(element: XmlElement): XmlValue {
+  if (element.children.length === 0) {
+    return element.text;
+  }
 
-  while ((match = regex.exec(xml)) !== null) {
-    result[match[1]] = match[2] ?? match[3] ?? "";
+  const result: XmlObject = Object.create(null);
+  for (const child of element.children) {
+    const value = xmlToObject(child) as string | XmlObject;
+    const existing = result[child.name];
+    if (existing === undefined) {
+      result[child.name] = value;
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      result[child.name] = [existing, value];
+    }
   }
+  return result;
+}
+
+/**
+ * 将可能重复的 XML 值统一为数组
+ */
+export function xmlList(value: XmlValue | undefined): Array<string | XmlObject> {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * 读取字段文本（缺失或非叶子元素时返回空字符串）
+ */
+function xmlText(obj: XmlObject, name: string): string {
+  const value = obj[name];
+  return typeof value === "string" ? value : "";
+}
+
+/**
+ * 读取子对象（缺失时返回空对象，重复时取第一个）
+ */
+function xmlChild(obj: XmlObject, name: string): XmlObject {
+  const value = xmlList(obj[name]).find((item) => typeof item === "object");
+  return (value as XmlObject | undefined) ?? {};
+}
 
+/**
+ * 解析 XML 消息（仅保留根元素下的叶子字段）
+ */
+export function parseXmlMessage(xml: string): Record<string, string> {
+  const result: Record<string, string> = Object.create(null);
+  for (const child of parseXml(xml).children) {
+    if (child.children.length === 0) {
+      result[child.name] = child.text;
+    }
+  }
   return result;
 }
 
+// 回调消息公共字段
+interface WeComMessageBase {
+  ToUserName: string;
+  FromUserName: string;
+  CreateTime: string;
+  AgentID: string;
+  MsgId?: string;
+  // 群聊 ID（仅群聊场景的回调携带）
+  ChatId?: string;
+  // 原始解析结果，便于读取未建模的字段
+  Raw: XmlObject;
+}
+
+export interface TextMessage extends WeComMessageBase {
+  MsgType: "text";
+  MsgId: string;
+  Content: string;
+}
+
+export interface ImageMessage extends WeComMessageBase {
+  MsgType: "image";
+  MsgId: string;
+  PicUrl: string;
+  MediaId: string;
+}
+
+export interface VoiceMessage extends WeComMessageBase {
+  MsgType: "voice";
+  MsgId: string;
+  MediaId: string;
+  Format: string;
+  // 语音识别结果（应用开启语音识别后才有）
+  Recognition?: string;
+}
+
+export interface VideoMessage extends WeComMessageBase {
+  MsgType: "video";
+  MsgId: string;
+  MediaId: string;
+  ThumbMediaId: string;
+}
+
+export interface FileMessage extends WeComMessageBase {
+  MsgType: "file";
+  MsgId: string;
+  MediaId: string;
+  FileName: string;
+}
+
+export interface LocationMessage extends WeComMessageBase {
+  MsgType: "location";
+  MsgId: string;
+  Location_X: string;
+  Location_Y: string;
+  Scale: string;
+  Label: string;
+}
+
+export interface LinkMessage extends WeComMessageBase {
+  MsgType: "link";
+  MsgId: string;
+  Title: string;
+  Description: string;
+  Url: string;
+  PicUrl: string;
+}
+
+// 未建模的消息类型
+export interface UnknownMessage extends WeComMessageBase {
+  MsgType: "unknown";
+  OriginalMsgType: string;
+}
+
+// 事件公共字段
+interface WeComEventBase extends WeComMessageBase {
+  MsgType: "event";
+  EventKey: string;
+}
+
+export interface SubscribeEvent extends WeComEventBase {
+  Event: "subscribe";
+}
+
+export interface UnsubscribeEvent extends WeComEventBase {
+  Event: "unsubscribe";
+}
+
+export interface EnterAgentEvent extends WeComEventBase {
+  Event: "enter_agent";
+}
+
+export interface ClickEvent extends WeComEventBase {
+  Event: "click";
+}
+
+export interface ViewEvent extends WeComEventBase {
+  Event: "view";
+}
+
+export interface LocationEvent extends WeComEventBase {
+  Event: "location";
+  Latitude: string;
+  Longitude: string;
+  Precision: string;
+}
+
+export interface ScanCodeEvent extends WeComEventBase {
+  Event: "scancode_push" | "scancode_waitmsg";
+  ScanCodeInfo: {
+    ScanType: string;
+    ScanResult: string;
+  };
+}
+
+export interface PicEvent extends WeComEventBase {
+  Event: "pic_sysphoto" | "pic_photo_or_album" | "pic_weixin";
+  SendPicsInfo: {
+    Count: number;
+    PicList: Array<{ PicMd5Sum: string }>;
+  };
+}
+
+export interface LocationSelectEvent extends WeComEventBase {
+  Event: "location_select";
+  SendLocationInfo: {
+    Location_X: string;
+    Location_Y: string;
+    Scale: string;
+    Label: string;
+    Poiname: string;
+  };
+}
+
+export interface BatchJobResultEvent extends WeComEventBase {
+  Event: "batch_job_result";
+  BatchJob: {
+    JobId: string;
+    JobType: string;
+    ErrCode: number;
+    ErrMsg: string;
+  };
+}
+
+export interface TemplateCardEvent extends WeComEventBase {
+  Event: "template_card_event";
+  TaskId: string;
+  CardType: string;
+  ResponseCode: string;
+  SelectedItems: Array<{
+    QuestionKey: string;
+    OptionIds: string[];
+  }>;
+}
+
+// 通讯录变更事件（成员、部门、标签的增删改）
+export interface ChangeContactEvent extends WeComEventBase {
+  Event: "change_contact";
+  // create_user、update_user、delete_user、create_party、update_party、delete_party、update_tag
+  ChangeType: string;
+  UserID?: string;
+  NewUserID?: string;
+  // 部门 id
+  Id?: string;
+  TagId?: string;
+}
+
+// 未建模的事件类型
+export interface UnknownEvent extends WeComEventBase {
+  Event: "unknown";
+  OriginalEvent: string;
+}
+
+export type WeComEvent =
+  | SubscribeEvent
+  | UnsubscribeEvent
+  | EnterAgentEvent
+  | ClickEvent
+  | ViewEvent
+  | LocationEvent
+  | ScanCodeEvent
+  | PicEvent
+  | LocationSelectEvent
+  | BatchJobResultEvent
+  | TemplateCardEvent
+  | ChangeContactEvent
+  | UnknownEvent;
+
+export type WeComMessage =
+  | TextMessage
+  | ImageMessage
+  | VoiceMessage
+  | VideoMessage
+  | FileMessage
+  | LocationMessage
+  | LinkMessage
+  | UnknownMessage
+  | WeComEvent;
+
+/**
+ * 解析事件消息
+ */
+function parseWeComEvent(base: WeComMessageBase, raw: XmlObject): WeComEvent {
+  const event = xmlText(raw, "Event");
+  const eventBase = { ...base, MsgType: "event" as const, EventKey: xmlText(raw, "EventKey") };
+
+  switch (event) {
+    case "subscribe":
+    case "unsubscribe":
+    case "enter_agent":
+    case "click":
+    case "view":
+      return { ...eventBase, Event: event };
+    case "location":
+      return {
+        ...eventBase,
+        Event: event,
+        Latitude: xmlText(raw, "Latitude"),
+        Longitude: xmlText(raw, "Longitude"),
+        Precision: xmlText(raw, "Precision"),
+      };
+    case "scancode_push":
+    case "scancode_waitmsg": {
+      const info = xmlChild(raw, "ScanCodeInfo");
+      return {
+        ...eventBase,
+        Event: event,
+        ScanCodeInfo: {
+          ScanType: xmlText(info, "ScanType"),
+          ScanResult: xmlText(info, "ScanResult"),
+        },
+      };
+    }
+    case "pic_sysphoto":
+    case "pic_photo_or_album":
+    case "pic_weixin": {
+      const info = xmlChild(raw, "SendPicsInfo");
+      const items = xmlList(xmlChild(info, "PicList").item);
+      return {
+        ...eventBase,
+        Event: event,
+        SendPicsInfo: {
+          Count: parseInt(xmlText(info, "Count") || "0", 10),
+          PicList: items.map((item) => ({
+            PicMd5Sum: typeof item === "object" ? xmlText(item, "PicMd5Sum") : "",
+          })),
+        },
+      };
+    }
+    case "location_select": {
+      const info = xmlChild(raw, "SendLocationInfo");
+      return {
+        ...eventBase,
+        Event: event,
+        SendLocationInfo: {
+          Location_X: xmlText(info, "Location_X"),
+          Location_Y: xmlText(info, "Location_Y"),
+          Scale: xmlText(info, "Scale"),
+          Label: xmlText(info, "Label"),
+          Poiname: xmlText(info, "Poiname"),
+        },
+      };
+    }
+    case "batch_job_result": {
+      const job = xmlChild(raw, "BatchJob");
+      return {
+        ...eventBase,
+        Event: event,
+        BatchJob: {
+          JobId: xmlText(job, "JobId"),
+          JobType: xmlText(job, "JobType"),
+          ErrCode: parseInt(xmlText(job, "ErrCode") || "0", 10),
+          ErrMsg: xmlText(job, "ErrMsg"),
+        },
+      };
+    }
+    case "template_card_event": {
+      const items = xmlList(xmlChild(raw, "SelectedItems").SelectedItem);
+      return {
+        ...eventBase,
+        Event: event,
+        TaskId: xmlText(raw, "TaskId"),
+        CardType: xmlText(raw, "CardType"),
+        ResponseCode: xmlText(raw, "ResponseCode"),
+        SelectedItems: items
+          .filter((item): item is XmlObject => typeof item === "object")
+          .map((item) => ({
+            QuestionKey: xmlText(item, "QuestionKey"),
+            OptionIds: xmlList(xmlChild(item, "OptionIds").OptionId).filter(
+              (id): id is string => typeof id === "string"
+            ),
+          })),
+      };
+    }
+    case "change_contact":
+      return {
+        ...eventBase,
+        Event: event,
+        ChangeType: xmlText(raw, "ChangeType"),
+        UserID: xmlText(raw, "UserID") || undefined,
+        NewUserID: xmlText(raw, "NewUserID") || undefined,
+        Id: xmlText(raw, "Id") || undefined,
+        TagId: xmlText(raw, "TagId") || undefined,
+      };
+    default:
+      return { ...eventBase, Event: "unknown", OriginalEvent: event };
+  }
+}
+
+/**
+ * 解析回调消息为带类型的消息对象
+ */
+export function parseWeComMessage(xml: string): WeComMessage {
+  const parsed = xmlToObject(parseXml(xml));
+  const raw: XmlObject = typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  const msgType = xmlText(raw, "MsgType");
+  const msgId = xmlText(raw, "MsgId");
+
+  const base: WeComMessageBase = {
+    ToUserName: xmlText(raw, "ToUserName"),
+    FromUserName: xmlText(raw, "FromUserName"),
+    CreateTime: xmlText(raw, "CreateTime"),
+    AgentID: xmlText(raw, "AgentID"),
+    ...(msgId ? { MsgId: msgId } : {}),
+    ...(xmlText(raw, "ChatId") ? { ChatId: xmlText(raw, "ChatId") } : {}),
+    Raw: raw,
+  };
+
+  switch (msgType) {
+    case "text":
+      return { ...base, MsgType: msgType, MsgId: msgId, Content: xmlText(raw, "Content") };
+    case "image":
+      return {
+        ...base,
+        MsgType: msgType,
+        MsgId: msgId,
+        PicUrl: xmlText(raw, "PicUrl"),
+        MediaId: xmlText(raw, "MediaId"),
+      };
+    case "voice":
+      return {
+        ...base,
+        MsgType: msgType,
+        MsgId: msgId,
+        MediaId: xmlText(raw, "MediaId"),
+        Format: xmlText(raw, "Format"),
+        Recognition: xmlText(raw, "Recognition") || undefined,
+      };
+    case "video":
+      return {
+        ...base,
+        MsgType: msgType,
+        MsgId: msgId,
+        MediaId: xmlText(raw, "MediaId"),
+        ThumbMediaId: xmlText(raw, "ThumbMediaId"),
+      };
+    case "file":
+      return {
+        ...base,
+        MsgType: msgType,
+        MsgId: msgId,
+        MediaId: xmlText(raw, "MediaId"),
+        FileName: xmlText(raw, "FileName"),
+      };
+    case "location":
+      return {
+        ...base,
+        MsgType: msgType,
+        MsgId: msgId,
+        Location_X: xmlText(raw, "Location_X"),
+        Location_Y: xmlText(raw, "Location_Y"),
+        Scale: xmlText(raw, "Scale"),
+        Label: xmlText(raw, "Label"),
+      };
+    case "link":
+      return {
+        ...base,
+        MsgType: msgType,
+        MsgId: msgId,
+        Title: xmlText(raw, "Title"),
+        Description: xmlText(raw, "Description"),
+        Url: xmlText(raw, "Url"),
+        PicUrl: xmlText(raw, "PicUrl"),
+      };
+    case "event":
+      return parseWeComEvent(base, raw);
+    default:
+      return { ...base, MsgType: "unknown", OriginalMsgType: msgType };
+  }
+}
+
 /**
  * 读取请求体
  */
@@ -156,56 +894,57 @@ export function parseQuery(url: string): Record<string, string> {
 }
 
 /**
- * 上传临时素材（图片）
+ * 上传临时素材：检查该类型的大小与格式限制，不满足时抛出 MediaUploadError
  */
 export async function uploadMedia(
   config: WeComAccountConfig,
   filePath: string,
-  type: "image" | "voice" | "video" | "file" = "image"
+  type: MediaUploadType = "image"
 ): Promise<string> {
-  const accessToken = await getAccessToken(config);
-  const url = `https://qyapi.weixin.qq.com/cgi-bin/media/upload?access_token=${accessToken}&type=${type}`;
-
-  // 动态导入 fs 和 path
   const fs = await import("node:fs");
   const path = await import("node:path");
 
-  // 读取文件
-  const fileBuffer = fs.readFileSync(filePath);
   const fileName = path.basename(filePath);
+  // 超过上限时不读取文件
+  assertUploadSize(type, (await fs.promises.stat(filePath)).size, fileName);
+  const data = await fs.promises.readFile(filePath);
+  assertUploadable(type, data, fileName);
+  return uploadMediaData(config, data, fileName, type);
+}
 
-  // 获取文件 MIME 类型
-  const ext = path.extname(filePath).toLowerCase();
-  const mimeTypes: Record<string, string> = {
-    ".jpg": "image/jpeg",
-    ".jpeg": "image/jpeg",
-    ".png": "image/png",
-    ".gif": "image/gif",
-    ".webp": "image/webp",
-  };
-  const contentType = mimeTypes[ext] || "application/octet-stream";
+/**
+ * 上传内存中的素材（调用方负责预检）
+ */
+export async function uploadMediaData(
+  config: WeComAccountConfig,
+  data: Buffer,
+  fileName: string,
+  type: MediaUploadType
+): Promise<string> {
+  const contentType = detectMimeType(data, fileName);
+  // 文件名中的引号与换行会破坏 multipart 头
+  const safeName = fileName.replace(/["\r\n]/g, "_");
 
   // 构建 multipart/form-data
   const boundary = `----WebKitFormBoundary${Date.now()}${Math.random().toString(36)}`;
-  const parts: Buffer[] = [];
-
-  // 添加文件字段
-  parts.push(Buffer.from(`--${boundary}\r\n`));
-  parts.push(Buffer.from(`Content-Disposition: form-data; name="media"; filename="${fileName}"\r\n`));
-  parts.push(Buffer.from(`Content-Type: ${contentType}\r\n\r\n`));
-  parts.push(fileBuffer);
-  parts.push(Buffer.from(`\r\n--${boundary}--\r\n`));
-
-  const body = Buffer.concat(parts);
-
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": `multipart/form-data; boundary=${boundary}`,
-      "Content-Length": String(body.length),
-    },
-    body,
-  });
+  const body = Buffer.concat([
+    Buffer.from(`--${boundary}\r\n`),
+    Buffer.from(`Content-Disposition: form-data; name="media"; filename="${safeName}"; filelength=${data.length}\r\n`),
+    Buffer.from(`Content-Type: ${contentType}\r\n\r\n`),
+    data,
+    Buffer.from(`\r\n--${boundary}--\r\n`),
+  ]);
+
+  const response = await fetchWithToken(config, (accessToken) =>
+    fetch(`https://qyapi.weixin.qq.com/cgi-bin/media/upload?access_token=${accessToken}&type=${type}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": `multipart/form-data; boundary=${boundary}`,
+        "Content-Length": String(body.length),
+      },
+      body,
+    })
+  );
 
   const result = (await response.json()) as {
     errcode?: number;
@@ -226,128 +965,352 @@ export async function uploadMedia(
   return result.media_id;
 }
 
+// 消息发送目标：单聊用户或应用群聊
+export type WeComTarget =
+  | { kind: "user"; userId: string }
+  | { kind: "chat"; chatId: string };
+
 /**
- * 发送图片消息
+ * 解析发送目标
+ * 支持 "chat:<chatid>"（应用群聊）、"user:<userid>" 与直接的 userid（可用 "|" 分隔多个），
+ * 可带 "wecom:" 前缀
  */
-export async function sendWeComImage(
-  config: WeComAccountConfig,
-  toUser: string,
-  mediaId: string
-): Promise<void> {
-  const accessToken = await getAccessToken(config);
-  const url = `https://qyapi.weixin.qq.com/cgi-bin/message/send?access_token=${accessToken}`;
-
-  const response = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      touser: toUser,
-      msgtype: "image",
-      agentid: parseInt(config.agentId, 10),
-      image: {
-        media_id: mediaId,
-      },
-    }),
-  });
-
-  const result = (await response.json()) as { errcode: number; errmsg: string };
+export function parseWeComTarget(to: string): WeComTarget {
+  const raw = to.trim().replace(/^wecom:/i, "");
+  if (raw.startsWith("chat:")) {
+    return { kind: "chat", chatId: raw.slice("chat:".length) };
+  }
+  if (raw.startsWith("user:")) {
+    return { kind: "user", userId: raw.slice("user:".length) };
+  }
+  return { kind: "user", userId: raw };
+}
 
-  if (result.errcode !== 0) {
-    throw new Error(`发送图片失败: ${result.errcode} ${result.errmsg}`);
+/**
+ * 企业微信接口返回的业务错误（携带 errcode）
+ */
+export class WeComApiError extends Error {
+  constructor(
+    label: string,
+    public readonly errcode: number,
+    public readonly errmsg: string
+  ) {
+    super(`${label}: ${errcode} ${errmsg}`);
+    this.name = "WeComApiError";
   }
 }
 
 /**
- * 发送文本消息到企业微信
+ * 携带 access_token 发起请求
+ * 返回 JSON 且错误码表示 token 无效（40014/42001/42009）时，清除缓存的 token 并重试一次
  */
-export async function sendWeComMessage(
+async function fetchWithToken(
   config: WeComAccountConfig,
-  toUser: string,
-  content: string
-): Promise<void> {
+  request: (accessToken: string) => Promise<Response>
+): Promise<Response> {
   const accessToken = await getAccessToken(config);
-  const url = `https://qyapi.weixin.qq.com/cgi-bin/message/send?access_token=${accessToken}`;
-
-  const response = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      touser: toUser,
-      msgtype: "text",
-      agentid: parseInt(config.agentId, 10),
-      text: {
-        content,
-      },
-    }),
-  });
+  const response = await request(accessToken);
 
-  const result = (await response.json()) as { errcode: number; errmsg: string };
+  const contentType = response.headers.get("content-type") || "";
+  if (!contentType.includes("application/json")) {
+    return response;
+  }
 
-  if (result.errcode !== 0) {
-    throw new Error(`发送消息失败: ${result.errcode} ${result.errmsg}`);
+  const result = (await response.clone().json().catch(() => ({}))) as { errcode?: number };
+  if (result.errcode === undefined || !INVALID_TOKEN_ERRCODES.has(result.errcode)) {
+    return response;
   }
+
+  invalidateAccessToken(config, accessToken);
+  return request(await getAccessToken(config));
 }
 
 /**
- * 发送文件消息
+ * 调用 POST JSON 接口
  */
-export async function sendWeComFile(
+async function postWeComApi<T extends { errcode?: number; errmsg?: string }>(
   config: WeComAccountConfig,
-  toUser: string,
-  mediaId: string
-): Promise<void> {
-  const accessToken = await getAccessToken(config);
-  const url = `https://qyapi.weixin.qq.com/cgi-bin/message/send?access_token=${accessToken}`;
-
-  const response = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      touser: toUser,
-      msgtype: "file",
-      agentid: parseInt(config.agentId, 10),
-      file: {
-        media_id: mediaId,
-      },
-    }),
+  apiPath: string,
+  payload: unknown,
+  errorLabel: string,
+  params: Record<string, string> = {}
+): Promise<T> {
+  const response = await fetchWithToken(config, (accessToken) => {
+    const query = new URLSearchParams({ access_token: accessToken, ...params });
+    return fetch(`https://qyapi.weixin.qq.com/cgi-bin/${apiPath}?${query}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
   });
 
-  const result = (await response.json()) as { errcode: number; errmsg: string };
+  const result = (await response.json()) as T;
 
-  if (result.errcode !== 0) {
-    throw new Error(`发送文件失败: ${result.errcode} ${result.errmsg}`);
+  if (result.errcode && result.errcode !== 0) {
+    throw new WeComApiError(errorLabel, result.errcode, result.errmsg ?? "");
   }
-}
+
+  return result;
+}
 
 /**
- * 发送语音消息
+ * 调用 GET 接口
  */
-export async function sendWeComVoice(
+async function getWeComApi<T extends { errcode?: number; errmsg?: string }>(
   config: WeComAccountConfig,
-  toUser: string,
-  mediaId: string
-): Promise<void> {
-  const accessToken = await getAccessToken(config);
-  const url = `https://qyapi.weixin.qq.com/cgi-bin/message/send?access_token=${accessToken}`;
-
-  const response = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      touser: toUser,
-      msgtype: "voice",
-      agentid: parseInt(config.agentId, 10),
-      voice: {
-        media_id: mediaId,
-      },
-    }),
+  apiPath: string,
+  params: Record<string, string>,
+  errorLabel: string
+): Promise<T> {
+  const response = await fetchWithToken(config, (accessToken) => {
+    const query = new URLSearchParams({ access_token: accessToken, ...params });
+    return fetch(`https://qyapi.weixin.qq.com/cgi-bin/${apiPath}?${query}`);
   });
 
-  const result = (await response.json()) as { errcode: number; errmsg: string };
+  const result = (await response.json()) as T;
+
+  if (result.errcode && result.errcode !== 0) {
+    throw new WeComApiError(errorLabel, result.errcode, result.errmsg ?? "");
+  }
+
+  return result;
+}
+
+// 发送接口返回结果
+export interface WeComSendResult {
+  errcode?: number;
+  errmsg?: string;
+  // 消息 ID，可用于撤回（群聊消息不返回）
+  msgid?: string;
+  // 无效或无权限的接收人，多个以 "|" 分隔
+  invaliduser?: string;
+  invalidparty?: string;
+  invalidtag?: string;
+  // 未获得许可的接收人
+  unlicenseduser?: string;
+  // 交互型模板卡片返回，用于更新卡片
+  response_code?: string;
+}
+
+// 已发送消息记录（用于撤回）
+export interface SentMessageRecord {
+  msgid: string;
+  to: string;
+  msgtype: string;
+  sentAt: number;
+}
+
+// 已发送消息索引：accountId -> 按发送时间排列的记录
+const sentMessageIndex: Map<string, SentMessageRecord[]> = new Map();
+const SENT_MESSAGE_INDEX_MAX_SIZE = 500; // 每个账户最多保留 500 条
+
+/**
+ * 记录已发送消息
+ */
+function recordSentMessage(accountId: string, record: SentMessageRecord): void {
+  let records = sentMessageIndex.get(accountId);
+  if (!records) {
+    records = [];
+    sentMessageIndex.set(accountId, records);
+  }
+  records.push(record);
+  if (records.length > SENT_MESSAGE_INDEX_MAX_SIZE) {
+    records.splice(0, records.length - SENT_MESSAGE_INDEX_MAX_SIZE);
+  }
+}
+
+/**
+ * 查询已发送消息（按发送时间倒序），可按接收人过滤
+ */
+export function getSentMessages(accountId: string, to?: string): SentMessageRecord[] {
+  const records = sentMessageIndex.get(accountId) ?? [];
+  return records.filter((record) => to === undefined || record.to === to).reverse();
+}
+
+/**
+ * 从索引中移除已发送消息
+ */
+export function forgetSentMessage(accountId: string, msgid: string): void {
+  const records = sentMessageIndex.get(accountId);
+  if (!records) return;
+  const index = records.findIndex((record) => record.msgid === msgid);
+  if (index !== -1) {
+    records.splice(index, 1);
+  }
+}
+
+/**
+ * 已发送消息索引中的记录总数
+ */
+export function getSentMessageCount(): number {
+  let count = 0;
+  for (const records of sentMessageIndex.values()) {
+    count += records.length;
+  }
+  return count;
+}
+
+/**
+ * 发送应用消息
+ * 发送前写入发件箱，成功后删除；网络错误或频率限制导致的失败保留，等待重放或到期
+ * 模板卡片依赖 response_code 等会话状态，不进入发件箱
+ */
+async function sendWeComPayload(
+  config: WeComAccountConfig,
+  to: string,
+  msgtype: string,
+  content: Record<string, unknown>,
+  errorLabel: string,
+  outboxEntry?: OutboxEntry
+): Promise<WeComSendResult> {
+  const entry = outboxEntry ??
+    (isOutboxEnabled(config) && msgtype !== "template_card"
+      ? await addOutboxEntry(config, to, msgtype, content)
+      : null);
+
+  let result: WeComSendResult;
+  try {
+    result = await dispatchWeComPayload(config, to, msgtype, content, errorLabel);
+  } catch (error) {
+    if (entry) {
+      // 已停止的回复与企业微信明确拒绝的消息（如成员不存在、参数错误）不保留，重放只会再次失败或重复发出
+      const definitive = error instanceof SendAbortedError ||
+        (error instanceof WeComApiError && !isRetryableError(error));
+      if (definitive) {
+        await removeOutboxEntry(entry);
+      } else {
+        await markOutboxFailure(entry, error);
+      }
+    }
+    throw error;
+  }
+  // 删除记录失败时仍视为已发送（removeOutboxEntry 不会抛出错误）
+  if (entry) await removeOutboxEntry(entry);
+  return result;
+}
+
+/**
+ * 重发发件箱中的记录（记录正在发送时抛出错误）
+ */
+export async function resendOutboxEntry(config: WeComAccountConfig, entry: OutboxEntry): Promise<WeComSendResult> {
+  if (!claimOutboxEntry(entry)) {
+    throw new Error(`重发消息失败: 记录 ${entry.id} 正在发送`);
+  }
+  return sendWeComPayload(config, entry.to, entry.msgtype, entry.content, "重发消息失败", entry);
+}
+
+/**
+ * 重放账户发件箱中未过期的记录（按创建顺序），删除已过期的记录
+ */
+export async function replayOutbox(
+  config: WeComAccountConfig
+): Promise<{ sent: number; failed: number; expired: number }> {
+  const summary = { sent: 0, failed: 0, expired: 0 };
+  const now = Date.now();
+
+  for (const entry of await listOutboxEntries(config.accountId)) {
+    if (!claimOutboxEntry(entry)) continue;
+    if (entry.expiresAt <= now) {
+      await removeOutboxEntry(entry);
+      summary.expired++;
+      continue;
+    }
+    try {
+      await sendWeComPayload(config, entry.to, entry.msgtype, entry.content, "重发消息失败", entry);
+      summary.sent++;
+    } catch {
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
 
-  if (result.errcode !== 0) {
-    throw new Error(`发送语音失败: ${result.errcode} ${result.errmsg}`);
+/**
+ * 调用发送接口（经账户发送队列）
+ * 目标为 "chat:<chatid>" 时走 appchat/send，否则走 message/send
+ */
+async function dispatchWeComPayload(
+  config: WeComAccountConfig,
+  to: string,
+  msgtype: string,
+  content: Record<string, unknown>,
+  errorLabel: string
+): Promise<WeComSendResult> {
+  const target = parseWeComTarget(to);
+
+  if (target.kind === "chat") {
+    return enqueueSend(config, `chat:${target.chatId}`, () =>
+      postWeComApi<WeComSendResult>(
+        config,
+        "appchat/send",
+        { chatid: target.chatId, msgtype, [msgtype]: content },
+        errorLabel
+      )
+    );
   }
+
+  const result = await enqueueSend(config, target.userId, () => postWeComApi<WeComSendResult>(
+    config,
+    "message/send",
+    {
+      touser: target.userId,
+      msgtype,
+      agentid: parseInt(config.agentId, 10),
+      [msgtype]: content,
+    },
+    errorLabel
+  ));
+
+  if (result.msgid) {
+    recordSentMessage(config.accountId, { msgid: result.msgid, to: target.userId, msgtype, sentAt: Date.now() });
+  }
+
+  return result;
+}
+
+/**
+ * 发送图片消息
+ */
+export async function sendWeComImage(
+  config: WeComAccountConfig,
+  to: string,
+  mediaId: string
+): Promise<WeComSendResult> {
+  return sendWeComPayload(config, to, "image", { media_id: mediaId }, "发送图片失败");
+}
+
+/**
+ * 发送文本消息到企业微信
+ */
+export async function sendWeComMessage(
+  config: WeComAccountConfig,
+  to: string,
+  content: string
+): Promise<WeComSendResult> {
+  return sendWeComPayload(config, to, "text", { content }, "发送消息失败");
+}
+
+/**
+ * 发送文件消息
+ */
+export async function sendWeComFile(
+  config: WeComAccountConfig,
+  to: string,
+  mediaId: string
+): Promise<WeComSendResult> {
+  return sendWeComPayload(config, to, "file", { media_id: mediaId }, "发送文件失败");
+}
+
+/**
+ * 发送语音消息
+ */
+export async function sendWeComVoice(
+  config: WeComAccountConfig,
+  to: string,
+  mediaId: string
+): Promise<WeComSendResult> {
+  return sendWeComPayload(config, to, "voice", { media_id: mediaId }, "发送语音失败");
 }
 
 /**
@@ -355,79 +1318,580 @@ export async function sendWeComVoice(
  */
 export async function sendWeComVideo(
   config: WeComAccountConfig,
-  toUser: string,
+  to: string,
   mediaId: string,
   title?: string,
   description?: string
-): Promise<void> {
-  const accessToken = await getAccessToken(config);
-  const url = `https://qyapi.weixin.qq.com/cgi-bin/message/send?access_token=${accessToken}`;
-
-  const response = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      touser: toUser,
-      msgtype: "video",
+): Promise<WeComSendResult> {
+  return sendWeComPayload(
+    config,
+    to,
+    "video",
+    {
+      media_id: mediaId,
+      title: title || "",
+      description: description || "",
+    },
+    "发送视频失败"
+  );
+}
+
+/**
+ * 发送 Markdown 消息（仅企业微信客户端渲染，微信插件中无法显示）
+ */
+export async function sendWeComMarkdown(
+  config: WeComAccountConfig,
+  to: string,
+  content: string
+): Promise<WeComSendResult> {
+  return sendWeComPayload(config, to, "markdown", { content }, "发送 Markdown 消息失败");
+}
+
+// 文本卡片
+export interface TextCard {
+  title: string;
+  // 支持 <div class="gray|normal|highlight"> 等有限的 HTML 标签
+  description: string;
+  url: string;
+  btntxt?: string;
+}
+
+/**
+ * 发送文本卡片消息
+ */
+export async function sendWeComTextCard(
+  config: WeComAccountConfig,
+  to: string,
+  card: TextCard
+): Promise<WeComSendResult> {
+  return sendWeComPayload(config, to, "textcard", { ...card }, "发送文本卡片失败");
+}
+
+// 图文消息文章
+export interface NewsArticle {
+  title: string;
+  description?: string;
+  url?: string;
+  picurl?: string;
+  // 小程序 appid 与页面路径（与 url 二选一）
+  appid?: string;
+  pagepath?: string;
+}
+
+// 图文消息（mpnews）文章，正文存储在企业微信
+export interface MpNewsArticle {
+  title: string;
+  thumb_media_id: string;
+  content: string;
+  author?: string;
+  content_source_url?: string;
+  digest?: string;
+}
+
+// 图文消息最多支持 8 篇文章
+const MAX_NEWS_ARTICLES = 8;
+
+/**
+ * 发送图文消息
+ */
+export async function sendWeComNews(
+  config: WeComAccountConfig,
+  to: string,
+  articles: NewsArticle[]
+): Promise<WeComSendResult> {
+  if (articles.length === 0 || articles.length > MAX_NEWS_ARTICLES) {
+    throw new Error(`发送图文消息失败: 文章数量须为 1-${MAX_NEWS_ARTICLES} 篇`);
+  }
+  return sendWeComPayload(config, to, "news", { articles }, "发送图文消息失败");
+}
+
+/**
+ * 发送图文消息（mpnews）
+ */
+export async function sendWeComMpNews(
+  config: WeComAccountConfig,
+  to: string,
+  articles: MpNewsArticle[]
+): Promise<WeComSendResult> {
+  if (articles.length === 0 || articles.length > MAX_NEWS_ARTICLES) {
+    throw new Error(`发送图文消息失败: 文章数量须为 1-${MAX_NEWS_ARTICLES} 篇`);
+  }
+  return sendWeComPayload(config, to, "mpnews", { articles }, "发送图文消息失败");
+}
+
+// 模板卡片（字段与企业微信 template_card 结构一致）
+export interface TemplateCard {
+  card_type: "text_notice" | "news_notice" | "button_interaction" | "vote_interaction" | "multiple_interaction";
+  source?: { icon_url?: string; desc?: string; desc_color?: number };
+  main_title?: { title?: string; desc?: string };
+  sub_title_text?: string;
+  quote_area?: { type?: number; url?: string; title?: string; quote_text?: string };
+  horizontal_content_list?: Array<{ keyname: string; value?: string; type?: number; url?: string }>;
+  card_action?: { type: number; url?: string; appid?: string; pagepath?: string };
+  // 按钮交互型：最多 6 个按钮
+  button_list?: Array<{ text: string; key: string; style?: number }>;
+  // 投票选择型：单个问题的选项（mode 0 单选，1 多选）
+  checkbox?: {
+    question_key: string;
+    option_list: Array<{ id: string; text: string; is_checked?: boolean }>;
+    mode?: number;
+  };
+  // 多项选择型：最多 3 个下拉选择
+  select_list?: Array<{
+    question_key: string;
+    title?: string;
+    selected_id?: string;
+    option_list: Array<{ id: string; text: string }>;
+  }>;
+  // 投票选择型与多项选择型的提交按钮
+  submit_button?: { text: string; key: string };
+  // 交互型卡片必填，同一应用内唯一
+  task_id?: string;
+  [field: string]: unknown;
+}
+
+/**
+ * 发送模板卡片消息
+ * 交互型卡片会返回 response_code，用于后续更新卡片
+ */
+export async function sendWeComTemplateCard(
+  config: WeComAccountConfig,
+  to: string,
+  card: TemplateCard
+): Promise<WeComSendResult> {
+  return sendWeComPayload(config, to, "template_card", { ...card }, "发送模板卡片失败");
+}
+
+/**
+ * 更新模板卡片
+ * 传入完整卡片时整体替换；传入 { replaceName } 时把按钮更新为不可点击的文字
+ * response_code 只能使用一次，接口若返回新的 response_code 则一并返回
+ */
+export async function updateWeComTemplateCard(
+  config: WeComAccountConfig,
+  userIds: string[],
+  responseCode: string,
+  update: { card: TemplateCard } | { replaceName: string }
+): Promise<WeComSendResult> {
+  return postWeComApi<WeComSendResult>(
+    config,
+    "message/update_template_card",
+    {
+      userids: userIds,
       agentid: parseInt(config.agentId, 10),
-      video: {
-        media_id: mediaId,
-        title: title || "",
-        description: description || "",
-      },
-    }),
+      response_code: responseCode,
+      ...("card" in update
+        ? { template_card: update.card }
+        : { button: { replace_name: update.replaceName } }),
+    },
+    "更新模板卡片失败"
+  );
+}
+
+/**
+ * 撤回应用消息（仅支持撤回 24 小时内通过 message/send 发送的消息）
+ */
+export async function recallMessage(config: WeComAccountConfig, msgid: string): Promise<void> {
+  await postWeComApi(config, "message/recall", { msgid }, "撤回消息失败");
+  forgetSentMessage(config.accountId, msgid);
+}
+
+// 支持的菜单按钮类型
+export type MenuButtonType = "click" | "view" | "scancode_push" | "pic_photo_or_album" | "location_select";
+
+// 应用菜单按钮（字段与企业微信 menu/create 结构一致）
+export interface MenuButton {
+  type?: MenuButtonType;
+  name: string;
+  key?: string;
+  url?: string;
+  sub_button?: MenuButton[];
+}
+
+// 应用未设置菜单时 menu/get 返回的错误码
+const MENU_NOT_EXIST_ERRCODE = 46003;
+
+/**
+ * 获取应用当前菜单，未设置菜单时返回空数组
+ */
+export async function getAppMenu(config: WeComAccountConfig): Promise<MenuButton[]> {
+  try {
+    const result = await getWeComApi<{ errcode?: number; errmsg?: string; button?: MenuButton[] }>(
+      config,
+      "menu/get",
+      { agentid: config.agentId },
+      "获取菜单失败"
+    );
+    return result.button ?? [];
+  } catch (error) {
+    if (error instanceof WeComApiError && error.errcode === MENU_NOT_EXIST_ERRCODE) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * 创建（覆盖）应用菜单
+ */
+export async function createAppMenu(config: WeComAccountConfig, buttons: MenuButton[]): Promise<void> {
+  await postWeComApi(config, "menu/create", { button: buttons }, "创建菜单失败", { agentid: config.agentId });
+}
+
+/**
+ * 删除应用菜单
+ */
+export async function deleteAppMenu(config: WeComAccountConfig): Promise<void> {
+  await getWeComApi(config, "menu/delete", { agentid: config.agentId }, "删除菜单失败");
+}
+
+// 通讯录成员（应用可见范围内）
+export interface WeComUser {
+  userid: string;
+  name?: string;
+  // 所属部门 id
+  department?: number[];
+  main_department?: number;
+  position?: string;
+}
+
+// 通讯录部门
+export interface WeComDepartment {
+  id: number;
+  name?: string;
+  // 父部门 id，根部门为 0
+  parentid: number;
+  order?: number;
+}
+
+// 标签成员
+export interface WeComTagMembers {
+  tagname?: string;
+  userlist: Array<{ userid: string; name?: string }>;
+  // 标签中的部门 id
+  partylist: number[];
+}
+
+/**
+ * 读取成员信息
+ */
+export async function getWeComUser(config: WeComAccountConfig, userId: string): Promise<WeComUser> {
+  const result = await getWeComApi<WeComUser & { errcode?: number; errmsg?: string }>(
+    config,
+    "user/get",
+    { userid: userId },
+    "读取成员失败"
+  );
+  return {
+    userid: result.userid,
+    name: result.name,
+    department: result.department,
+    main_department: result.main_department,
+    position: result.position,
+  };
+}
+
+/**
+ * 获取部门列表（不指定 id 时返回应用可见范围内的全部部门）
+ */
+export async function listWeComDepartments(config: WeComAccountConfig, id?: number): Promise<WeComDepartment[]> {
+  const result = await getWeComApi<{ errcode?: number; errmsg?: string; department?: WeComDepartment[] }>(
+    config,
+    "department/list",
+    id !== undefined ? { id: String(id) } : {},
+    "获取部门列表失败"
+  );
+  return result.department ?? [];
+}
+
+/**
+ * 获取标签成员
+ */
+export async function getWeComTagMembers(config: WeComAccountConfig, tagId: number): Promise<WeComTagMembers> {
+  const result = await getWeComApi<Partial<WeComTagMembers> & { errcode?: number; errmsg?: string }>(
+    config,
+    "tag/get",
+    { tagid: String(tagId) },
+    "获取标签成员失败"
+  );
+  return { tagname: result.tagname, userlist: result.userlist ?? [], partylist: result.partylist ?? [] };
+}
+
+// 通讯录标签
+export interface WeComTag {
+  tagid: number;
+  tagname: string;
+}
+
+/**
+ * 获取标签列表
+ */
+export async function listWeComTags(config: WeComAccountConfig): Promise<WeComTag[]> {
+  const result = await getWeComApi<{ errcode?: number; errmsg?: string; taglist?: WeComTag[] }>(
+    config,
+    "tag/list",
+    {},
+    "获取标签列表失败"
+  );
+  return result.taglist ?? [];
+}
+
+// 通讯录缓存有效期（收到 change_contact 事件时提前清除）
+const DIRECTORY_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// 通讯录缓存：accountId:类型:id -> 查询结果（缓存 Promise，并发查询同一条目只请求一次）
+const directoryCache = new Map<string, { value: Promise<unknown>; expiresAt: number }>();
+
+/**
+ * 读取通讯录缓存，过期或不存在时重新查询；查询失败不缓存
+ */
+function cachedDirectoryLookup<T>(config: WeComAccountConfig, key: string, load: () => Promise<T>): Promise<T> {
+  const cacheKey = `${config.accountId}:${key}`;
+  const cached = directoryCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value as Promise<T>;
+  }
+
+  const value = load();
+  directoryCache.set(cacheKey, { value, expiresAt: Date.now() + DIRECTORY_CACHE_TTL_MS });
+  value.catch(() => {
+    if (directoryCache.get(cacheKey)?.value === value) directoryCache.delete(cacheKey);
   });
+  return value;
+}
+
+/**
+ * 读取成员信息（缓存）
+ */
+export function getDirectoryUser(config: WeComAccountConfig, userId: string): Promise<WeComUser> {
+  return cachedDirectoryLookup(config, `user:${userId}`, () => getWeComUser(config, userId));
+}
+
+/**
+ * 获取应用可见范围内的全部部门（缓存）
+ */
+export function listDirectoryDepartments(config: WeComAccountConfig): Promise<WeComDepartment[]> {
+  return cachedDirectoryLookup(config, "departments", () => listWeComDepartments(config));
+}
 
-  const result = (await response.json()) as { errcode: number; errmsg: string };
+/**
+ * 获取标签列表（缓存）
+ */
+export function listDirectoryTags(config: WeComAccountConfig): Promise<WeComTag[]> {
+  return cachedDirectoryLookup(config, "tags", () => listWeComTags(config));
+}
 
-  if (result.errcode !== 0) {
-    throw new Error(`发送视频失败: ${result.errcode} ${result.errmsg}`);
+/**
+ * 获取标签成员（缓存）
+ */
+export function getDirectoryTagMembers(config: WeComAccountConfig, tagId: number): Promise<WeComTagMembers> {
+  return cachedDirectoryLookup(config, `tag:${tagId}`, () => getWeComTagMembers(config, tagId));
+}
+
+/**
+ * 部门及其所有上级部门（由近到远）
+ */
+export async function resolveDepartmentChain(
+  config: WeComAccountConfig,
+  departmentId: number
+): Promise<WeComDepartment[]> {
+  const departments = new Map((await listDirectoryDepartments(config)).map((item) => [item.id, item]));
+  const chain: WeComDepartment[] = [];
+  let current = departments.get(departmentId);
+  while (current && !chain.includes(current)) {
+    chain.push(current);
+    current = departments.get(current.parentid);
   }
+  return chain;
 }
 
 /**
- * 下载临时素材
- * 返回保存的文件路径
+ * 清除通讯录缓存，不指定账户时清除所有账户
  */
-export async function downloadMedia(
+export function clearDirectoryCache(accountId?: string): void {
+  if (!accountId) {
+    directoryCache.clear();
+    return;
+  }
+  for (const key of directoryCache.keys()) {
+    if (key.startsWith(`${accountId}:`)) directoryCache.delete(key);
+  }
+}
+
+// 应用群聊信息
+export interface AppChatInfo {
+  chatid: string;
+  name: string;
+  owner: string;
+  userlist: string[];
+  chat_type?: number;
+}
+
+/**
+ * 创建应用群聊
+ * 返回群聊 chatid
+ */
+export async function createAppChat(
   config: WeComAccountConfig,
-  mediaId: string,
-  saveDir: string,
-  filename?: string
+  options: { userlist: string[]; name?: string; owner?: string; chatid?: string }
 ): Promise<string> {
-  const accessToken = await getAccessToken(config);
-  const url = `https://qyapi.weixin.qq.com/cgi-bin/media/get?access_token=${accessToken}&media_id=${mediaId}`;
+  const result = await postWeComApi<{ errcode?: number; errmsg?: string; chatid?: string }>(
+    config,
+    "appchat/create",
+    options,
+    "创建群聊失败"
+  );
+
+  if (!result.chatid) {
+    throw new Error("创建群聊失败: 未返回 chatid");
+  }
+
+  return result.chatid;
+}
+
+/**
+ * 修改应用群聊（名称、群主、成员）
+ */
+export async function updateAppChat(
+  config: WeComAccountConfig,
+  options: {
+    chatid: string;
+    name?: string;
+    owner?: string;
+    add_user_list?: string[];
+    del_user_list?: string[];
+  }
+): Promise<void> {
+  await postWeComApi(config, "appchat/update", options, "修改群聊失败");
+}
+
+/**
+ * 获取应用群聊信息
+ */
+export async function getAppChat(config: WeComAccountConfig, chatId: string): Promise<AppChatInfo> {
+  const result = await getWeComApi<{ errcode?: number; errmsg?: string; chat_info?: AppChatInfo }>(
+    config,
+    "appchat/get",
+    { chatid: chatId },
+    "获取群聊失败"
+  );
+
+  if (!result.chat_info) {
+    throw new Error("获取群聊失败: 未返回 chat_info");
+  }
 
-  const response = await fetch(url);
+  return result.chat_info;
+}
+
+/**
+ * 发送应用群聊消息（支持 text、markdown、image、voice、video、file 等类型）
+ */
+export async function sendAppChatMessage(
+  config: WeComAccountConfig,
+  chatId: string,
+  msgtype: string,
+  content: Record<string, unknown>
+): Promise<WeComSendResult> {
+  return sendWeComPayload(config, `chat:${chatId}`, msgtype, content, "发送群聊消息失败");
+}
+
+// 下载的素材内容
+export interface MediaContent {
+  data: Buffer;
+  contentType: string;
+  // Content-Disposition 中的文件名（未经处理，不可直接用于路径）
+  fileName?: string;
+}
+
+/**
+ * 读取响应体，超过 maxBytes 时中止下载
+ */
+async function readResponseBody(response: Response, maxBytes?: number): Promise<Buffer> {
+  const declared = parseInt(response.headers.get("content-length") || "", 10);
+  if (maxBytes && declared > maxBytes) {
+    await response.body?.cancel();
+    throw new Error(`素材过大: ${declared} 字节，超过上限 ${maxBytes} 字节`);
+  }
+  if (!maxBytes || !response.body) {
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  const chunks: Buffer[] = [];
+  let received = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw new Error(`素材过大: 超过上限 ${maxBytes} 字节`);
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * 下载临时素材内容（不写入磁盘）
+ * 指定 maxBytes 时超过上限的素材不会完整下载；hd 为 true 时获取高清语音（需要开通高级功能）；signal 中止时终止下载
+ */
+export async function fetchMediaContent(
+  config: WeComAccountConfig,
+  mediaId: string,
+  options: { maxBytes?: number; hd?: boolean; signal?: AbortSignal } = {}
+): Promise<MediaContent> {
+  const apiPath = options.hd ? "media/get/jssdk" : "media/get";
+  const response = await fetchWithToken(config, (accessToken) =>
+    fetch(`https://qyapi.weixin.qq.com/cgi-bin/${apiPath}?access_token=${accessToken}&media_id=${encodeURIComponent(mediaId)}`, {
+      signal: options.signal,
+    })
+  );
 
   // 检查是否返回错误 JSON
   const contentType = response.headers.get("content-type") || "";
   if (contentType.includes("application/json")) {
     const result = (await response.json()) as { errcode: number; errmsg: string };
-    throw new Error(`下载素材失败: ${result.errcode} ${result.errmsg}`);
+    throw new Error(`${options.hd ? "下载高清语音失败" : "下载素材失败"}: ${result.errcode} ${result.errmsg}`);
   }
 
   // 从 Content-Disposition 获取文件名
   const disposition = response.headers.get("content-disposition") || "";
-  let finalFilename = filename;
+  const filenameMatch = disposition.match(/filename="?([^";\n]+)"?/i);
+
+  return {
+    data: await readResponseBody(response, options.maxBytes),
+    contentType,
+    fileName: filenameMatch?.[1],
+  };
+}
+
+/**
+ * 下载临时素材
+ * 返回保存的文件路径（文件名只保留最后一段，不会写到 saveDir 之外）
+ */
+export async function downloadMedia(
+  config: WeComAccountConfig,
+  mediaId: string,
+  saveDir: string,
+  filename?: string
+): Promise<string> {
+  const media = await fetchMediaContent(config, mediaId);
+
+  let finalFilename = filename || media.fileName;
   if (!finalFilename) {
-    const filenameMatch = disposition.match(/filename="?([^";\n]+)"?/i);
-    if (filenameMatch) {
-      finalFilename = filenameMatch[1];
-    } else {
-      // 根据 Content-Type 猜测扩展名
-      const extMap: Record<string, string> = {
-        "image/jpeg": ".jpg",
-        "image/png": ".png",
-        "image/gif": ".gif",
-        "image/webp": ".webp",
-        "audio/amr": ".amr",
-        "video/mp4": ".mp4",
-        "application/octet-stream": ".bin",
-      };
-      const ext = extMap[contentType] || ".bin";
-      finalFilename = `${mediaId}${ext}`;
-    }
+    // 根据 Content-Type 猜测扩展名
+    const extMap: Record<string, string> = {
+      "image/jpeg": ".jpg",
+      "image/png": ".png",
+      "image/gif": ".gif",
+      "image/webp": ".webp",
+      "audio/amr": ".amr",
+      "video/mp4": ".mp4",
+      "application/octet-stream": ".bin",
+    };
+    const ext = extMap[media.contentType] || ".bin";
+    finalFilename = `${mediaId}${ext}`;
   }
 
   // 动态导入 fs 和 path
@@ -439,12 +1903,9 @@ export async function downloadMedia(
     fs.mkdirSync(saveDir, { recursive: true });
   }
 
-  const filePath = path.join(saveDir, finalFilename);
-
-  // 获取文件内容并保存
-  const arrayBuffer = await response.arrayBuffer();
-  const buffer = Buffer.from(arrayBuffer);
-  fs.writeFileSync(filePath, buffer);
+  const baseName = path.basename(finalFilename.replace(/\\/g, "/"));
+  const filePath = path.join(saveDir, baseName && baseName !== "." && baseName !== ".." ? baseName : `${mediaId}.bin`);
+  fs.writeFileSync(filePath, media.data);
 
   return filePath;
 }
@@ -458,16 +1919,7 @@ export async function downloadVoiceHD(
   saveDir: string,
   filename?: string
 ): Promise<string> {
-  const accessToken = await getAccessToken(config);
-  const url = `https://qyapi.weixin.qq.com/cgi-bin/media/get/jssdk?access_token=${accessToken}&media_id=${mediaId}`;
-
-  const response = await fetch(url);
-
-  const contentType = response.headers.get("content-type") || "";
-  if (contentType.includes("application/json")) {
-    const result = (await response.json()) as { errcode: number; errmsg: string };
-    throw new Error(`下载高清语音失败: ${result.errcode} ${result.errmsg}`);
-  }
+  const media = await fetchMediaContent(config, mediaId, { hd: true });
 
   const fs = await import("node:fs");
   const path = await import("node:path");
@@ -476,12 +1928,8 @@ export async function downloadVoiceHD(
     fs.mkdirSync(saveDir, { recursive: true });
   }
 
-  const finalFilename = filename || `${mediaId}.mp3`;
-  const filePath = path.join(saveDir, finalFilename);
-
-  const arrayBuffer = await response.arrayBuffer();
-  const buffer = Buffer.from(arrayBuffer);
-  fs.writeFileSync(filePath, buffer);
+  const filePath = path.join(saveDir, path.basename(filename || `${mediaId}.mp3`));
+  fs.writeFileSync(filePath, media.data);
 
   return filePath;
 }